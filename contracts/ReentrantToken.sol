@@ -47,10 +47,11 @@ contract ReentrantToken is ERC20 {
     IVaultWithdrawCall(vault).withdrawDYNW(amount);
   }
 
-  function _transfer(address from, address to, uint256 amount) internal override {
+  // OpenZeppelin 5 routes every transfer through `_update`; `_transfer` is no longer virtual.
+  function _update(address from, address to, uint256 amount) internal override {
     if (reenter && vault != address(0) && from == vault) {
       IVaultWithdraw(vault).withdrawDYNW(reenterAmount);
     }
-    super._transfer(from, to, amount);
+    super._update(from, to, amount);
   }
 }
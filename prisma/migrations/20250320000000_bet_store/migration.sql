@@ -0,0 +1,114 @@
+-- CreateTable
+CREATE TABLE "bets" (
+    "id" TEXT NOT NULL,
+    "betId" TEXT NOT NULL,
+    "user" TEXT NOT NULL,
+    "userId" TEXT,
+    "loginAddress" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "pickedUid" TEXT,
+    "pickedName" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "wagerAmount" DOUBLE PRECISION NOT NULL,
+    "txHash" TEXT,
+    "blockNumber" INTEGER,
+    "futureBet" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "market_results" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "masterpieceName" TEXT,
+    "settledAt" TIMESTAMP(3) NOT NULL,
+    "pot" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL,
+    "winnerUid" TEXT,
+    "winnerName" TEXT,
+    "houseTake" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carryover" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "market_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payouts" (
+    "id" TEXT NOT NULL,
+    "marketResultId" TEXT NOT NULL,
+    "user" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "carryovers" (
+    "key" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "carryovers_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "house_entries" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "house_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wallets" (
+    "address" TEXT NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "balance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "wallets_pkey" PRIMARY KEY ("address")
+);
+
+-- CreateTable
+CREATE TABLE "wallet_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bets_masterpieceId_position_idx" ON "bets"("masterpieceId", "position");
+
+-- CreateIndex
+CREATE INDEX "bets_loginAddress_idx" ON "bets"("loginAddress");
+
+-- CreateIndex
+CREATE INDEX "bets_txHash_idx" ON "bets"("txHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_results_masterpieceId_position_key" ON "market_results"("masterpieceId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payouts_marketResultId_user_key" ON "payouts"("marketResultId", "user");
+
+-- CreateIndex
+CREATE INDEX "house_entries_masterpieceId_idx" ON "house_entries"("masterpieceId");
+
+-- CreateIndex
+CREATE INDEX "wallet_ledger_entries_walletAddress_createdAt_idx" ON "wallet_ledger_entries"("walletAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_marketResultId_fkey" FOREIGN KEY ("marketResultId") REFERENCES "market_results"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wallet_ledger_entries" ADD CONSTRAINT "wallet_ledger_entries_walletAddress_fkey" FOREIGN KEY ("walletAddress") REFERENCES "wallets"("address") ON DELETE CASCADE ON UPDATE CASCADE;
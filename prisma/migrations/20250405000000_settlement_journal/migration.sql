@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "settlements" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "betId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "winners" JSONB NOT NULL,
+    "payoutsWei" JSONB NOT NULL,
+    "houseTakeWei" TEXT NOT NULL,
+    "carryoverAddedWei" TEXT NOT NULL,
+    "carryoverNextWei" TEXT,
+    "txHash" TEXT,
+    "blockNumber" INTEGER,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlements_masterpieceId_position_key" ON "settlements"("masterpieceId", "position");
+
+-- CreateIndex
+CREATE INDEX "settlements_status_idx" ON "settlements"("status");
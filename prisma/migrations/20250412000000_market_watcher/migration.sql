@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "markets" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "state" TEXT NOT NULL,
+    "collectedPoints" DOUBLE PRECISION,
+    "requiredPoints" DOUBLE PRECISION,
+    "closedAt" TIMESTAMP(3),
+    "settleAfter" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "markets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "markets_masterpieceId_key" ON "markets"("masterpieceId");
+
+-- CreateIndex
+CREATE INDEX "markets_state_idx" ON "markets"("state");
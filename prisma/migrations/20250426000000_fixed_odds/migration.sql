@@ -0,0 +1,24 @@
+-- DropIndex
+DROP INDEX "market_results_masterpieceId_position_key";
+
+-- DropIndex
+DROP INDEX "settlements_masterpieceId_position_key";
+
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'pool',
+ADD COLUMN     "odds" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "market_results" ADD COLUMN     "houseTopUp" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "market" TEXT NOT NULL DEFAULT 'pool';
+
+-- AlterTable
+ALTER TABLE "settlements" ADD COLUMN     "houseTopUpWei" TEXT NOT NULL DEFAULT '0',
+ADD COLUMN     "market" TEXT NOT NULL DEFAULT 'pool',
+ADD COLUMN     "topUpTxHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_results_masterpieceId_position_market_key" ON "market_results"("masterpieceId", "position", "market");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "settlements_masterpieceId_position_market_key" ON "settlements"("masterpieceId", "position", "market");
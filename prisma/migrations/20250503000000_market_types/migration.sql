@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "marketType" TEXT NOT NULL DEFAULT 'position',
+ADD COLUMN     "opponentName" TEXT,
+ADD COLUMN     "opponentUid" TEXT,
+ADD COLUMN     "picks" JSONB;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "closeReason" TEXT,
+ADD COLUMN     "cutoffMinutes" DOUBLE PRECISION,
+ADD COLUMN     "cutoffPercent" DOUBLE PRECISION,
+ADD COLUMN     "finishedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "suspendReason" TEXT,
+ADD COLUMN     "suspendedAt" TIMESTAMP(3);
+
+-- Markets closed by the watcher before cutoffs existed had finished.
+UPDATE "markets" SET "closeReason" = 'finished', "finishedAt" = "closedAt" WHERE "state" IN ('closed', 'settled');
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "bets" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "market_results" ADD COLUMN     "refunded" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "voidReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "betId" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "market" TEXT NOT NULL DEFAULT 'pool',
+    "user" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "settlementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_masterpieceId_idx" ON "refunds"("masterpieceId");
+
+-- CreateIndex
+CREATE INDEX "refunds_user_idx" ON "refunds"("user");
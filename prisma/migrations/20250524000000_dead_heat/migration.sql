@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "market_results" ADD COLUMN     "deadHeat" JSONB;
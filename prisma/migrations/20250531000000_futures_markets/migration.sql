@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "closesAt" TIMESTAMP(3),
+ADD COLUMN     "futures" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "futuresName" TEXT,
+ADD COLUMN     "opensAt" TIMESTAMP(3),
+ADD COLUMN     "players" JSONB,
+ADD COLUMN     "startDeadline" TIMESTAMP(3),
+ADD COLUMN     "wentLiveAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "markets_futures_idx" ON "markets"("futures");
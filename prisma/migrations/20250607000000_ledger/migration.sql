@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "fromAccount" TEXT NOT NULL,
+    "toAccount" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "amountWei" TEXT NOT NULL,
+    "masterpieceId" INTEGER,
+    "position" INTEGER,
+    "market" TEXT,
+    "betId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_fromAccount_idx" ON "ledger_entries"("fromAccount");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_toAccount_idx" ON "ledger_entries"("toAccount");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_masterpieceId_idx" ON "ledger_entries"("masterpieceId");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "chain_events" (
+    "id" TEXT NOT NULL,
+    "contract" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "user" TEXT,
+    "betId" TEXT,
+    "args" JSONB NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "removed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chain_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "indexer_checkpoints" (
+    "id" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "blockHash" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "indexer_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chain_events_user_idx" ON "chain_events"("user");
+
+-- CreateIndex
+CREATE INDEX "chain_events_betId_idx" ON "chain_events"("betId");
+
+-- CreateIndex
+CREATE INDEX "chain_events_blockNumber_idx" ON "chain_events"("blockNumber");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "masterpiece_snapshots" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "finished" BOOLEAN NOT NULL DEFAULT false,
+    "data" JSONB NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "masterpiece_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "masterpiece_snapshots_masterpieceId_idx" ON "masterpiece_snapshots"("masterpieceId");
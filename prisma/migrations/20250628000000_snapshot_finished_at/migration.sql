@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "masterpiece_snapshots" ADD COLUMN     "finishedAt" TIMESTAMP(3);
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "leaderboard_snapshots" (
+    "id" TEXT NOT NULL,
+    "masterpieceId" INTEGER NOT NULL,
+    "takenAt" TIMESTAMP(3) NOT NULL,
+    "collectedPoints" DOUBLE PRECISION NOT NULL,
+    "requiredPoints" DOUBLE PRECISION NOT NULL,
+    "leaderboard" JSONB NOT NULL,
+    "resources" JSONB,
+
+    CONSTRAINT "leaderboard_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leaderboard_snapshots_masterpieceId_takenAt_idx" ON "leaderboard_snapshots"("masterpieceId", "takenAt");
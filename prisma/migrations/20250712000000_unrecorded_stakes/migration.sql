@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN     "amountWei" TEXT;
+
+-- AlterTable
+ALTER TABLE "settlements" ADD COLUMN     "unrecordedCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "unrecordedStakes" JSONB;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "bets" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30),
+ALTER COLUMN "wagerAmount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "carryovers" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "house_entries" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "ledger_entries" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "market_results" ALTER COLUMN "pot" SET DATA TYPE DECIMAL(65,30),
+ALTER COLUMN "houseTake" SET DATA TYPE DECIMAL(65,30),
+ALTER COLUMN "houseTopUp" SET DATA TYPE DECIMAL(65,30),
+ALTER COLUMN "carryover" SET DATA TYPE DECIMAL(65,30),
+ALTER COLUMN "refunded" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "payouts" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "refunds" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "wallet_ledger_entries" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "wallets" ALTER COLUMN "balance" SET DATA TYPE DECIMAL(65,30);
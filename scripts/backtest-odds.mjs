@@ -0,0 +1,61 @@
+import fs from "fs";
+import path from "path";
+import { backtestModelOdds, fitModelParams, loadModelParams, saveModelParams } from "../server/backtest.js";
+
+// Usage: node scripts/backtest-odds.mjs [dataDir] [--fit] [--save]
+// Backtests the model odds on dataDir/history.json with the saved parameters
+// (dataDir/model_params.json, or the defaults). `--fit` grid-searches the parameters
+// instead and prints the best ones; `--save` also writes them to model_params.json,
+// where /api/odds/model picks them up.
+
+const args = process.argv.slice(2);
+const flags = new Set(args.filter((arg) => arg.startsWith("--")));
+const dataDir = path.resolve(args.find((arg) => !arg.startsWith("--")) || process.env.BETS_DATA_DIR || "server/data");
+const historyPath = path.join(dataDir, "history.json");
+const paramsPath = path.join(dataDir, "model_params.json");
+
+function round(value) {
+  return value === null ? null : Number(value.toFixed(4));
+}
+
+function summaryRow({ params, scored, logLoss, brier, uniformLogLoss }) {
+  return {
+    lambda: params.lambda,
+    tau: params.tau,
+    k: params.k,
+    scored,
+    logLoss: round(logLoss),
+    brier: round(brier),
+    uniformLogLoss: round(uniformLogLoss),
+  };
+}
+
+async function main() {
+  if (!fs.existsSync(historyPath)) throw new Error(`${historyPath} not found`);
+  const history = JSON.parse(fs.readFileSync(historyPath, "utf-8"));
+
+  if (!flags.has("--fit")) {
+    const report = backtestModelOdds(history, loadModelParams(paramsPath));
+    console.table([summaryRow(report)]);
+    console.table(report.calibration.map((bucket) => ({ ...bucket, predicted: round(bucket.predicted), observed: round(bucket.observed) })));
+    return;
+  }
+
+  const fit = await fitModelParams(history, {
+    onProgress: ({ done, total }) => {
+      if (process.stdout.isTTY) process.stdout.write(`\rBacktested ${done}/${total} parameter sets`);
+    },
+  });
+  if (process.stdout.isTTY) process.stdout.write("\n");
+  if (!fit.best) throw new Error("not enough history to backtest");
+  console.table(fit.ranked.map(summaryRow));
+  if (flags.has("--save")) {
+    const saved = saveModelParams(paramsPath, fit);
+    console.log(`Saved lambda=${saved.lambda} tau=${saved.tau} k=${saved.k} to ${paramsPath}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import { normalizeWallet } from "../server/auth.js";
+import { makeStore } from "../server/betting.js";
+import { prisma } from "../server/db.js";
+import { createPrismaStore, loadStoreData } from "../server/store.js";
+
+// Usage: node scripts/import-json-store.mjs [dataDir]
+// Loads bets.json, results.json, carryover.json, house.json and wallets.json into the
+// database and checks that the imported totals match the files. Safe to re-run: records
+// are upserted by id and house totals are written as deltas.
+
+const dataDir = path.resolve(process.argv[2] || process.env.BETS_DATA_DIR || "server/data");
+const EPSILON = 1e-9;
+
+function sum(values) {
+  return values.reduce((total, value) => total + Number(value || 0), 0);
+}
+
+function normalizeWallets(wallets) {
+  const out = {};
+  for (const [key, record] of Object.entries(wallets || {})) {
+    const address = normalizeWallet(record?.address || key);
+    if (!address) continue;
+    const existing = out[address];
+    const ledger = (Array.isArray(record.ledger) ? record.ledger : []).map((entry, index) => ({
+      ...entry,
+      id: entry?.id || `${address}:${index}`,
+    }));
+    if (existing) {
+      existing.balance = Number(existing.balance || 0) + Number(record.balance || 0);
+      existing.ledger = [...existing.ledger, ...ledger];
+      continue;
+    }
+    out[address] = {
+      ...record,
+      address,
+      balance: Number(record.balance || 0),
+      ledger,
+      betIds: Array.isArray(record.betIds) ? record.betIds : [],
+    };
+  }
+  return out;
+}
+
+function summarize(data, { betIds, masterpieceIds, carryoverKeys, walletAddresses }) {
+  const bets = data.bets.filter((b) => betIds.has(String(b.id)));
+  const results = masterpieceIds.map((id) => data.results[id]).filter(Boolean);
+  const markets = results.flatMap((entry) => entry.results || []);
+  const wallets = walletAddresses.map((address) => data.wallets[address]).filter(Boolean);
+  return {
+    bets: bets.length,
+    betAmount: sum(bets.map((b) => b.amount)),
+    resultMasterpieces: results.length,
+    resultMarkets: markets.length,
+    resultPot: sum(markets.map((r) => r.pot)),
+    resultPayouts: sum(markets.flatMap((r) => Object.values(r.payouts || {}))),
+    resultHouseTake: sum(markets.map((r) => r.houseTake)),
+    houseTotal: Number(data.house.total || 0),
+    houseByMasterpiece: sum(Object.values(data.house.byMasterpiece || {})),
+    ...Object.fromEntries(carryoverKeys.map((key) => [`carryover[${key}]`, Number(data.carryover[key] || 0)])),
+    wallets: wallets.length,
+    walletBalance: sum(wallets.map((w) => w.balance)),
+    walletLedgerAmount: sum(wallets.flatMap((w) => (w.ledger || []).map((e) => e.amount))),
+  };
+}
+
+async function main() {
+  if (!fs.existsSync(dataDir)) throw new Error(`Data directory not found: ${dataDir}`);
+  const { store: source } = makeStore(dataDir);
+  source.wallets = normalizeWallets(source.wallets);
+  source.bets = source.bets.filter((b) => b && b.id !== undefined);
+
+  const { store, persist, flush } = await createPrismaStore(prisma);
+
+  const byId = new Map(store.bets.map((b, index) => [String(b.id), index]));
+  for (const bet of source.bets) {
+    const index = byId.get(String(bet.id));
+    if (index === undefined) store.bets.push(bet);
+    else store.bets[index] = bet;
+  }
+  Object.assign(store.results, source.results);
+  Object.assign(store.carryover, source.carryover);
+  store.house.total = Number(source.house.total || 0);
+  store.house.byMasterpiece = { ...store.house.byMasterpiece, ...source.house.byMasterpiece };
+  for (const [address, record] of Object.entries(source.wallets)) {
+    store.wallets[address] = record;
+  }
+
+  persist();
+  await flush();
+
+  const scope = {
+    betIds: new Set(source.bets.map((b) => String(b.id))),
+    masterpieceIds: Object.keys(source.results),
+    carryoverKeys: Object.keys(source.carryover),
+    walletAddresses: Object.keys(source.wallets),
+  };
+  const expected = summarize(source, scope);
+  const actual = summarize(await loadStoreData(prisma), scope);
+  // The in-memory ledger is capped at 100 entries per wallet once loaded back.
+  actual.walletLedgerAmount = sum(
+    (
+      await prisma.walletLedgerEntry.findMany({ where: { walletAddress: { in: scope.walletAddresses } } })
+    ).map((e) => e.amount)
+  );
+
+  const rows = Object.keys(expected).map((key) => ({
+    check: key,
+    files: expected[key],
+    database: actual[key],
+    ok: Math.abs(Number(expected[key]) - Number(actual[key])) < EPSILON,
+  }));
+  console.table(rows);
+
+  const failed = rows.filter((row) => !row.ok);
+  if (failed.length) {
+    throw new Error(`Reconciliation failed for: ${failed.map((row) => row.check).join(", ")}`);
+  }
+  console.log(`Imported ${dataDir} into the database.`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+import { spawnSync } from "child_process";
+
+// Usage: DATABASE_URL=file:./dev.db node scripts/prisma-sqlite.mjs
+// Prisma does not allow the datasource provider to come from env, so this derives a
+// SQLite copy of prisma/schema.prisma, generates the client from it and pushes the
+// tables. The Postgres migrations stay the source of truth for deployments.
+
+const SOURCE_SCHEMA = "prisma/schema.prisma";
+const SQLITE_SCHEMA = "prisma/sqlite/schema.prisma";
+
+function run(args) {
+  const result = spawnSync("npx", ["prisma", ...args, "--schema", SQLITE_SCHEMA], {
+    stdio: "inherit",
+    env: process.env,
+  });
+  if (result.status !== 0) {
+    throw new Error(`prisma ${args.join(" ")} failed`);
+  }
+}
+
+function main() {
+  const url = process.env.DATABASE_URL || "";
+  if (!url.startsWith("file:")) {
+    throw new Error("DATABASE_URL must be a SQLite file URL, e.g. DATABASE_URL=file:./dev.db");
+  }
+
+  const source = fs.readFileSync(SOURCE_SCHEMA, "utf8");
+  const sqlite = source.replace(/provider\s*=\s*"postgresql"/, 'provider = "sqlite"');
+  if (sqlite === source) throw new Error(`No postgresql datasource found in ${SOURCE_SCHEMA}`);
+
+  fs.mkdirSync(path.dirname(SQLITE_SCHEMA), { recursive: true });
+  fs.writeFileSync(SQLITE_SCHEMA, `// Generated from ${SOURCE_SCHEMA} by scripts/prisma-sqlite.mjs. Do not edit.\n${sqlite}`);
+
+  run(["generate"]);
+  run(["db", "push", "--skip-generate"]);
+  console.log(`SQLite database ready at ${url}`);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err.message || err);
+  process.exitCode = 1;
+}
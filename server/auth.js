@@ -0,0 +1,149 @@
+// server/auth.js
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { verifyMessage } from "ethers";
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+export const ROLES = {
+  USER: "user",
+  OPERATOR: "operator",
+  ADMIN: "admin",
+};
+
+// Admins can do everything operators can.
+const ROLE_RANK = { [ROLES.USER]: 0, [ROLES.OPERATOR]: 1, [ROLES.ADMIN]: 2 };
+
+export function isRole(role) {
+  return Object.hasOwn(ROLE_RANK, role);
+}
+
+export function hasRole(role, required) {
+  return (ROLE_RANK[role] ?? 0) >= ROLE_RANK[required];
+}
+
+export function normalizeWallet(address) {
+  if (!address || typeof address !== "string") return null;
+  const trimmed = address.trim().toLowerCase();
+  if (trimmed.startsWith("ronin:")) {
+    return `0x${trimmed.slice(6)}`;
+  }
+  return trimmed;
+}
+
+function isAddress(address) {
+  return /^0x[0-9a-f]{40}$/.test(address || "");
+}
+
+function buildSignInMessage(address, nonce, issuedAt) {
+  return [
+    "Sign in to CraftWorld Bets",
+    "",
+    `Wallet: ${address}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join("\n");
+}
+
+export function createAuth({ secret, expiresIn = "7d", getOrCreateUser, getUserById }) {
+  const nonces = new Map();
+
+  function pruneNonces() {
+    const now = Date.now();
+    for (const [address, entry] of nonces) {
+      if (entry.expiresAt <= now) nonces.delete(address);
+    }
+  }
+
+  function issueNonce(walletAddress) {
+    const address = normalizeWallet(walletAddress);
+    if (!isAddress(address)) return { error: "invalid wallet address" };
+    pruneNonces();
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const issuedAt = new Date().toISOString();
+    const entry = {
+      nonce,
+      message: buildSignInMessage(address, nonce, issuedAt),
+      expiresAt: Date.now() + NONCE_TTL_MS,
+    };
+    nonces.set(address, entry);
+    return { address, ...entry };
+  }
+
+  async function verifySignIn(walletAddress, signature) {
+    if (!secret) return { error: "JWT_SECRET not configured" };
+    const address = normalizeWallet(walletAddress);
+    if (!isAddress(address)) return { error: "invalid wallet address" };
+    if (!signature || typeof signature !== "string") return { error: "signature required" };
+
+    const entry = nonces.get(address);
+    if (!entry || entry.expiresAt <= Date.now()) return { error: "nonce expired, request a new one" };
+
+    let recovered;
+    try {
+      recovered = normalizeWallet(verifyMessage(entry.message, signature));
+    } catch {
+      return { error: "invalid signature" };
+    }
+    if (recovered !== address) return { error: "signature does not match wallet" };
+
+    // Single use: a captured signature cannot be replayed for another token.
+    nonces.delete(address);
+
+    const user = await getOrCreateUser(address);
+    const token = jwt.sign({ sub: address, uid: user.id }, secret, { expiresIn });
+    const decoded = jwt.decode(token);
+    return {
+      token,
+      loginAddress: address,
+      userId: user.id,
+      role: user.role || ROLES.USER,
+      expiresAt: decoded?.exp ? new Date(decoded.exp * 1000).toISOString() : null,
+    };
+  }
+
+  function readToken(req) {
+    const header = req.headers?.authorization || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    return match ? match[1].trim() : null;
+  }
+
+  function requireAuth(req, res, next) {
+    if (!secret) return res.status(500).json({ error: "JWT_SECRET not configured" });
+    const token = readToken(req);
+    if (!token) return res.status(401).json({ error: "sign in required" });
+    try {
+      const payload = jwt.verify(token, secret);
+      const address = normalizeWallet(payload?.sub);
+      if (!isAddress(address)) return res.status(401).json({ error: "invalid token" });
+      req.auth = { address, userId: payload.uid || null };
+      return next();
+    } catch {
+      return res.status(401).json({ error: "invalid or expired token" });
+    }
+  }
+
+  // Roles are read from the users table on every request rather than from the token,
+  // so revoking a role takes effect immediately.
+  function requireRole(required) {
+    return (req, res, next) => {
+      requireAuth(req, res, async () => {
+        try {
+          const user = req.auth.userId ? await getUserById(req.auth.userId) : null;
+          if (!user || user.loginAddress !== req.auth.address) {
+            return res.status(401).json({ error: "sign in required" });
+          }
+          req.auth.role = user.role || ROLES.USER;
+          if (!hasRole(req.auth.role, required)) {
+            return res.status(403).json({ error: `${required} role required` });
+          }
+          return next();
+        } catch (e) {
+          return res.status(500).json({ error: String(e) });
+        }
+      });
+    };
+  }
+
+  return { issueNonce, verifySignIn, requireAuth, requireRole };
+}
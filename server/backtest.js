@@ -0,0 +1,158 @@
+// server/backtest.js
+import fs from "fs";
+import { DEFAULT_MODEL_PARAMS, computeModelOdds } from "./odds.js";
+
+// Values tried by `fitModelParams` unless a grid is passed in. `k` adds the same prior
+// to every player's strength, which the softmax cancels out, so it isn't searched.
+export const DEFAULT_PARAM_GRID = {
+  lambda: [0, 0.05, 0.1, 0.2, 0.35, 0.5, 0.75, 1],
+  tau: [0.5, 0.75, 0.9, 1.2, 1.6, 2, 3],
+  k: [DEFAULT_MODEL_PARAMS.k],
+};
+
+const EPSILON = 1e-12;
+
+function byEndedAt(history) {
+  return Object.entries(history || {})
+    .map(([mpId, mp]) => ({ mpId, mp }))
+    .filter(({ mp }) => Array.isArray(mp?.results) && mp.results.some((r) => r?.player))
+    .sort((a, b) => new Date(a.mp.endedAt).valueOf() - new Date(b.mp.endedAt).valueOf());
+}
+
+// Share of the win each player got: 1 for a sole winner, 1/n each for an n-way dead heat.
+function winShares(results) {
+  const winners = results.filter((r) => r?.player && Number(r.position) === 1).map((r) => r.player);
+  return new Map(winners.map((player) => [player, 1 / winners.length]));
+}
+
+function calibrationBuckets(count) {
+  return Array.from({ length: count }, (_, index) => ({
+    from: index / count,
+    to: (index + 1) / count,
+    count: 0,
+    predictedSum: 0,
+    observedSum: 0,
+  }));
+}
+
+// Replays `history` in `endedAt` order, pricing each masterpiece with a model fitted
+// only on the ones that ended before it, and scores the win probabilities it gave the
+// players who took part: log-loss of the winner, multi-class Brier score, and
+// calibration buckets of predicted probability against how often it came true. The
+// first `minTraining` masterpieces are only used for training.
+export function backtestModelOdds(history, params = DEFAULT_MODEL_PARAMS, { minTraining = 5, bucketCount = 10 } = {}) {
+  const ordered = byEndedAt(history);
+  const buckets = calibrationBuckets(bucketCount);
+  const training = {};
+  let logLossSum = 0;
+  let brierSum = 0;
+  let uniformLogLossSum = 0;
+  let scored = 0;
+
+  ordered.forEach(({ mpId, mp }, index) => {
+    const shares = winShares(mp.results);
+    if (index >= minTraining && shares.size > 0) {
+      const field = [...new Set(mp.results.filter((r) => r?.player).map((r) => r.player))];
+      const { probs } = computeModelOdds(training, { ...params, field });
+      let logLoss = 0;
+      let brier = 0;
+      for (const player of field) {
+        const p = probs[player] ?? 0;
+        const outcome = shares.get(player) || 0;
+        if (outcome > 0) logLoss -= outcome * Math.log(Math.max(EPSILON, p));
+        brier += (p - outcome) ** 2;
+        const bucket = buckets[Math.min(bucketCount - 1, Math.floor(p * bucketCount))];
+        bucket.count += 1;
+        bucket.predictedSum += p;
+        bucket.observedSum += outcome;
+      }
+      logLossSum += logLoss;
+      brierSum += brier;
+      uniformLogLossSum += Math.log(field.length);
+      scored += 1;
+    }
+    training[mpId] = mp;
+  });
+
+  return {
+    params: { ...DEFAULT_MODEL_PARAMS, ...params },
+    masterpieces: ordered.length,
+    scored,
+    logLoss: scored ? logLossSum / scored : null,
+    brier: scored ? brierSum / scored : null,
+    // What picking uniformly within the field would score, for comparison.
+    uniformLogLoss: scored ? uniformLogLossSum / scored : null,
+    calibration: buckets
+      .filter((bucket) => bucket.count > 0)
+      .map(({ from, to, count, predictedSum, observedSum }) => ({
+        from,
+        to,
+        count,
+        predicted: predictedSum / count,
+        observed: observedSum / count,
+      })),
+  };
+}
+
+function gridParams(grid) {
+  const combos = [];
+  for (const lambda of grid.lambda) {
+    for (const tau of grid.tau) {
+      for (const k of grid.k) combos.push({ lambda, tau, k, usePoints: grid.usePoints ?? true });
+    }
+  }
+  return combos;
+}
+
+// Backtests every combination in `grid` and returns them ranked by log-loss (Brier
+// breaks ties). Yields to the event loop between combinations so the server keeps
+// answering while a fit runs.
+export async function fitModelParams(history, { grid = DEFAULT_PARAM_GRID, minTraining, top = 10, onProgress } = {}) {
+  const combos = gridParams({ ...DEFAULT_PARAM_GRID, ...grid });
+  const results = [];
+  for (const [index, params] of combos.entries()) {
+    results.push(backtestModelOdds(history, params, { minTraining }));
+    onProgress?.({ done: index + 1, total: combos.length });
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  results.sort((a, b) => (a.logLoss ?? Infinity) - (b.logLoss ?? Infinity) || (a.brier ?? Infinity) - (b.brier ?? Infinity));
+  const best = results[0] && results[0].scored > 0 ? results[0] : null;
+  return {
+    evaluated: results.length,
+    best,
+    ranked: results.slice(0, top).map(({ calibration, ...summary }) => summary),
+  };
+}
+
+// Saved model parameters, falling back to the defaults for anything missing.
+export function loadModelParams(filePath) {
+  try {
+    if (!filePath || !fs.existsSync(filePath)) return { ...DEFAULT_MODEL_PARAMS };
+    const saved = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const params = { ...DEFAULT_MODEL_PARAMS };
+    for (const key of ["lambda", "tau", "k"]) {
+      if (Number.isFinite(saved?.[key])) params[key] = saved[key];
+    }
+    if (typeof saved?.usePoints === "boolean") params.usePoints = saved.usePoints;
+    return params;
+  } catch (e) {
+    console.error("Failed to read model params:", e);
+    return { ...DEFAULT_MODEL_PARAMS };
+  }
+}
+
+export function saveModelParams(filePath, fit) {
+  const { lambda, tau, k, usePoints } = fit.best.params;
+  const record = {
+    lambda,
+    tau,
+    k,
+    usePoints,
+    fittedAt: new Date().toISOString(),
+    logLoss: fit.best.logLoss,
+    brier: fit.best.brier,
+    scored: fit.best.scored,
+  };
+  fs.writeFileSync(filePath, JSON.stringify(record, null, 2));
+  return record;
+}
@@ -0,0 +1,168 @@
+// server/betOutcomes.js
+import { BET_MODES, MARKET_TYPES, betMarket, betMarketType, isVoided, normalizeName } from "./betting.js";
+import { settlementKey } from "./settlement.js";
+
+export const BET_OUTCOME = {
+  OPEN: "open",
+  WON: "won",
+  LOST: "lost",
+  VOIDED: "voided",
+  CARRIED_OVER: "carried_over",
+};
+
+// The settled result of the market a bet belongs to, or null while it is open.
+export function marketResult(results, bet) {
+  const market = betMarket(bet);
+  return (
+    (results?.[String(bet.masterpieceId)]?.results || []).find(
+      (r) => r.position === bet.position && (r.market || BET_MODES.POOL) === market
+    ) || null
+  );
+}
+
+// The wallet a bet was staked from, which settlement pays out to. Both the grouping
+// below and `walletBets` go by it.
+function betWallet(bet) {
+  return String(bet.user || bet.loginAddress || "").toLowerCase();
+}
+
+// Whether a live bet's pick matches a settled result. Dead heats list every tied
+// player in `winnerUid`, comma separated, except top-3 results: `winnerUid` names
+// places 1-3 only, and everyone in a tie reaching into them is in `deadHeat` (see
+// `deadHeatShares`). Legacy bets without a uid match by name.
+function pickWon(bet, result) {
+  const winners = String(result.winnerUid || "").split(",").filter(Boolean);
+  switch (betMarketType(bet)) {
+    case MARKET_TYPES.TRIFECTA:
+      return (bet.picks || []).join(",") === winners.join(",");
+    case MARKET_TYPES.TOP3:
+      return (
+        winners.includes(bet.pickedUid) ||
+        (result.deadHeat || []).some((tie) => (tie.players || []).some((player) => player.uid === bet.pickedUid))
+      );
+    case MARKET_TYPES.H2H:
+      return winners.includes(bet.pickedUid);
+    default:
+      if (bet.pickedUid) return winners.includes(bet.pickedUid);
+      return String(result.winnerName || "")
+        .split(" & ")
+        .some((name) => normalizeName(name) === normalizeName(bet.pickedName));
+  }
+}
+
+// Outcome of every bet, keyed by bet id: `{ status, payout, settlementTxHash }`.
+// Payouts are recorded per user and market, so a user's payout is split back over
+// their bets in that market: voided stakes are refunded first, the rest goes to their
+// winning bets by stake. A bet whose pick can't be told from the result (a trifecta
+// in a dead heat, say) counts as won when its user was paid more than their refunds.
+export function betOutcomes({ bets, results, settlements }) {
+  const groups = new Map();
+  for (const bet of bets) {
+    const result = marketResult(results, bet);
+    const wallet = betWallet(bet);
+    const key = result ? `${settlementKey(bet.masterpieceId, bet.position, betMarket(bet))}:${wallet}` : bet.id;
+    if (!groups.has(key)) groups.set(key, { result, wallet, bets: [] });
+    groups.get(key).bets.push(bet);
+  }
+
+  const outcomes = new Map();
+  for (const { result, wallet, bets: group } of groups.values()) {
+    if (!result) {
+      for (const bet of group) {
+        outcomes.set(bet.id, {
+          status: isVoided(bet) ? BET_OUTCOME.VOIDED : BET_OUTCOME.OPEN,
+          payout: 0,
+          settlementTxHash: null,
+        });
+      }
+      continue;
+    }
+
+    const settlementTxHash =
+      settlements?.[settlementKey(result.masterpieceId, result.position, result.market || BET_MODES.POOL)]?.txHash ||
+      null;
+    const paid = Object.entries(result.payouts || {})
+      .filter(([user]) => user.toLowerCase() === wallet)
+      .reduce((sum, [, amount]) => sum + (Number(amount) || 0), 0);
+    const voided = group.filter((bet) => isVoided(bet) || result.status === "VOIDED" || result.status === "PUSH");
+    const live = group.filter((bet) => !voided.includes(bet));
+    const refunded = voided.reduce((sum, bet) => sum + bet.amount, 0);
+    const winnings = Math.max(0, paid - refunded);
+    let winning = live.filter((bet) => pickWon(bet, result));
+    if (winning.length === 0 && winnings > 0) winning = live;
+    const winningStake = winning.reduce((sum, bet) => sum + bet.amount, 0);
+    const lostStatus = result.status === "NO_WINNERS" && result.carryover > 0 ? BET_OUTCOME.CARRIED_OVER : BET_OUTCOME.LOST;
+
+    for (const bet of voided) {
+      outcomes.set(bet.id, {
+        status: BET_OUTCOME.VOIDED,
+        payout: refunded > 0 ? (Math.min(paid, refunded) * bet.amount) / refunded : 0,
+        settlementTxHash,
+      });
+    }
+    for (const bet of live) {
+      const won = winning.includes(bet) && winnings > 0;
+      outcomes.set(bet.id, {
+        status: won ? BET_OUTCOME.WON : lostStatus,
+        payout: won ? (winnings * bet.amount) / winningStake : 0,
+        settlementTxHash,
+      });
+    }
+  }
+  return outcomes;
+}
+
+export const BET_SORT_FIELDS = ["createdAt", "masterpieceId", "amount", "payout"];
+
+// A wallet's bets with their outcomes, filtered by `status` (a BET_OUTCOME),
+// `marketType` and `masterpieceId`, sorted and paged. Totals cover every bet the
+// filters match: `pending` is the stake of bets whose market hasn't settled yet, and
+// `net` is what was returned less the stake of the rest.
+export function walletBets(
+  address,
+  { bets, results, settlements },
+  { status = null, marketType = null, masterpieceId = null, sort = "createdAt", order = "desc", limit = 50, offset = 0 } = {}
+) {
+  const own = bets.filter((bet) => betWallet(bet) === address);
+  const outcomes = betOutcomes({ bets: own, results, settlements });
+  const rows = own
+    .map((bet) => ({
+      id: bet.id,
+      masterpieceId: bet.masterpieceId,
+      position: bet.position,
+      market: betMarket(bet),
+      marketType: betMarketType(bet),
+      mode: bet.mode || BET_MODES.POOL,
+      pickedUid: bet.pickedUid ?? null,
+      pickedName: bet.pickedName ?? null,
+      picks: bet.picks ?? null,
+      opponentUid: bet.opponentUid ?? null,
+      opponentName: bet.opponentName ?? null,
+      odds: bet.odds ?? null,
+      amount: bet.amount,
+      txHash: bet.txHash ?? null,
+      voidReason: bet.voidReason ?? null,
+      createdAt: bet.createdAt,
+      settled: Boolean(marketResult(results, bet)),
+      ...outcomes.get(bet.id),
+    }))
+    .filter(
+      (row) =>
+        (!status || row.status === status) &&
+        (!marketType || row.marketType === marketType) &&
+        (masterpieceId === null || row.masterpieceId === masterpieceId)
+    );
+
+  const direction = order === "asc" ? 1 : -1;
+  const value = (row) => (sort === "createdAt" ? Date.parse(row.createdAt) || 0 : row[sort]);
+  rows.sort((a, b) => direction * (value(a) - value(b)) || direction * String(a.id).localeCompare(String(b.id)));
+
+  const staked = rows.reduce((sum, row) => sum + row.amount, 0);
+  const pending = rows.filter((row) => !row.settled).reduce((sum, row) => sum + row.amount, 0);
+  const returned = rows.reduce((sum, row) => sum + row.payout, 0);
+  return {
+    total: rows.length,
+    totals: { staked, pending, returned, net: returned - (staked - pending) },
+    bets: rows.slice(offset, offset + limit),
+  };
+}
@@ -49,58 +49,96 @@ export function newId() {
   return crypto.randomUUID?.() ?? crypto.randomBytes(16).toString("hex");
 }
 
-export function settleMarket({ masterpieceId, position, bets, winnerUid, winnerName }) {
-  const marketBets = bets.filter(
-    (b) => b.masterpieceId === masterpieceId && b.position === position && b.amount > 0
-  );
+export const BET_MODES = {
+  POOL: "pool",
+  FIXED: "fixed",
+};
 
-  const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+export function betMode(bet) {
+  return bet?.mode || BET_MODES.POOL;
+}
 
-  if (pot === 0) {
-    return {
-      masterpieceId,
-      position,
-      pot: 0,
-      winnerUid,
-      winnerName,
-      status: "PAID",
-      houseTake: 0,
-      carryover: 0,
-      payouts: {},
-    };
-  }
+export const MARKET_TYPES = {
+  POSITION: "position",
+  TRIFECTA: "trifecta",
+  TOP3: "top3",
+  H2H: "h2h",
+};
 
-  const isWinner = (b) => {
-    if (winnerUid && b.pickedUid) return b.pickedUid === winnerUid;
-    if (winnerName) return normalizeName(b.pickedName) === normalizeName(winnerName);
-    return false;
-  };
+// Trifecta, top-3 and head-to-head pots are placed on one on-chain position (the
+// contract only accepts 1-3); settling them passes that position's carryover through.
+export const SPECIAL_MARKET_POSITION = 1;
 
-  const winningBets = marketBets.filter(isWinner);
-  const sTotal = winningBets.reduce((sum, b) => sum + b.amount, 0);
+export function betMarketType(bet) {
+  return bet?.marketType || MARKET_TYPES.POSITION;
+}
 
-  // NO WINNERS: house keeps half, remainder carryover
-  if (sTotal === 0) {
-    const houseTake = Math.floor(pot * 0.5);
-    const carryover = pot - houseTake;
+export function h2hMarket(uidA, uidB) {
+  return `${MARKET_TYPES.H2H}:${[uidA, uidB].sort().join(":")}`;
+}
 
-    return {
-      masterpieceId,
-      position,
-      pot,
-      winnerUid,
-      winnerName,
-      status: "NO_WINNERS",
-      houseTake,
-      carryover,
-      payouts: {},
-    };
+// The pot a bet belongs to: its mode for position markets, otherwise the market type,
+// plus the matchup for head-to-head.
+export function betMarket(bet) {
+  switch (betMarketType(bet)) {
+    case MARKET_TYPES.TRIFECTA:
+      return MARKET_TYPES.TRIFECTA;
+    case MARKET_TYPES.TOP3:
+      return MARKET_TYPES.TOP3;
+    case MARKET_TYPES.H2H:
+      return h2hMarket(bet.pickedUid, bet.opponentUid);
+    default:
+      return betMode(bet);
   }
+}
 
-  // WINNERS EXIST: pro-rata payouts (with rounding)
-  const userStake = {};
-  for (const b of winningBets) userStake[b.user] = (userStake[b.user] || 0) + b.amount;
+export const BET_STATUS = {
+  ACTIVE: "ACTIVE",
+  VOIDED: "VOIDED",
+};
 
+export function isVoided(bet) {
+  return bet?.status === BET_STATUS.VOIDED;
+}
+
+// Players a bet depends on: every trifecta pick, both sides of a head-to-head, otherwise
+// the pick itself. Legacy bets recorded by name only have none.
+function betPickUids(bet) {
+  switch (betMarketType(bet)) {
+    case MARKET_TYPES.TRIFECTA:
+      return (bet.picks || []).filter(Boolean);
+    case MARKET_TYPES.H2H:
+      return [bet.pickedUid, bet.opponentUid].filter(Boolean);
+    default:
+      return bet.pickedUid ? [bet.pickedUid] : [];
+  }
+}
+
+// Why a bet is void on the final leaderboard, or null. A pick who never took part (a
+// futureBet on someone who didn't show up, say) can neither win nor lose.
+export function betVoidReason(bet, leaderboard) {
+  const uids = new Set((leaderboard || []).map((r) => r?.profile?.uid).filter(Boolean));
+  const missing = betPickUids(bet).filter((uid) => !uids.has(uid));
+  return missing.length ? `${missing.join(", ")} did not take part` : null;
+}
+
+// "pool", "fixed", "trifecta", "top3" or "h2h" for a key returned by betMarket.
+export function marketTypeOf(market) {
+  return String(market || BET_MODES.POOL).split(":")[0];
+}
+
+function inMarket(bet, masterpieceId, position, market) {
+  return bet.masterpieceId === masterpieceId && bet.position === position && bet.amount > 0 && betMarket(bet) === market;
+}
+
+// Live bets of a market; voided bets are refunded and take no part in settlement.
+function marketBetsFor(bets, masterpieceId, position, market = BET_MODES.POOL) {
+  return bets.filter((b) => inMarket(b, masterpieceId, position, market) && !isVoided(b));
+}
+
+// Pro-rata split of `pot` by stake, rounded down; leftover units go one at a time to
+// the largest stakes.
+function splitPot(pot, userStake, sTotal) {
   const payouts = {};
   let paidSum = 0;
 
@@ -127,15 +165,398 @@ export function settleMarket({ masterpieceId, position, bets, winnerUid, winnerN
     }
   }
 
+  return payouts;
+}
+
+function stakeByUser(bets) {
+  const userStake = {};
+  for (const b of bets) userStake[b.user] = (userStake[b.user] || 0) + b.amount;
+  return userStake;
+}
+
+function rowName(row) {
+  return row?.profile?.displayName || row?.profile?.uid || "?";
+}
+
+// Leaderboard rows in finishing order, grouped where players tie on masterpiecePoints.
+// A group covers ranks `from`..`to`, whatever order the API returned its rows in.
+export function tieGroups(leaderboard) {
+  const rows = (leaderboard || []).filter((r) => r?.profile?.uid).sort((a, b) => a.position - b.position);
+  const groups = [];
+  rows.forEach((row, i) => {
+    const last = groups[groups.length - 1];
+    if (last && Number(last.rows[0].masterpiecePoints) === Number(row.masterpiecePoints)) {
+      last.rows.push(row);
+      last.to = i + 1;
+    } else {
+      groups.push({ from: i + 1, to: i + 1, rows: [row] });
+    }
+  });
+  return groups;
+}
+
+function describeTie(group, ratio) {
   return {
+    from: group.from,
+    to: group.to,
+    ratio,
+    players: group.rows.map((row) => ({ uid: row.profile.uid, name: rowName(row) })),
+  };
+}
+
+// Dead-heat rule for the first `places` ranks: every player in a tie that reaches into
+// them gets `placesHeld / tiedPlayers` of a place. `shares` maps uid → that ratio (1
+// without a tie); `ties` records each dead heat for the result.
+export function deadHeatShares(leaderboard, places) {
+  const shares = new Map();
+  const ties = [];
+  for (const group of tieGroups(leaderboard)) {
+    if (group.from > places) break;
+    const ratio = (Math.min(group.to, places) - group.from + 1) / group.rows.length;
+    for (const row of group.rows) shares.set(row.profile.uid, ratio);
+    if (group.rows.length > 1) ties.push(describeTie(group, ratio));
+  }
+  return { shares, ties };
+}
+
+// The players sharing one finishing `position`: a single row, or every player in the
+// tie covering it, each holding 1/n of the place.
+export function deadHeatAt(leaderboard, position) {
+  const group = tieGroups(leaderboard).find((g) => g.from <= position && position <= g.to);
+  if (!group) return null;
+  const ratio = 1 / group.rows.length;
+  return { rows: group.rows, ratio, tie: group.rows.length > 1 ? describeTie(group, ratio) : null };
+}
+
+// Shared by the trifecta, top-3 and head-to-head pools. `shareOf` is 0 for a losing bet
+// and the dead-heat ratio (1 without a tie) for a winning one; winners split the pot
+// pro-rata to stake × share. With no carryover of their own, the house keeps the pot
+// when nobody wins.
+function settleSpecialPool({ masterpieceId, position, market, marketBets, shareOf, winnerUid, winnerName, ties = [] }) {
+  const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+  const userStake = {};
+  for (const b of marketBets) {
+    const share = shareOf(b);
+    if (share > 0) userStake[b.user] = (userStake[b.user] || 0) + b.amount * share;
+  }
+  const sTotal = Object.values(userStake).reduce((sum, stake) => sum + stake, 0);
+  const base = {
     masterpieceId,
     position,
+    market,
     pot,
     winnerUid,
     winnerName,
-    status: "PAID",
-    houseTake: 0,
+    carryover: 0,
+    ...(ties.length ? { deadHeat: ties } : {}),
+  };
+
+  if (pot === 0) return { ...base, status: "PAID", houseTake: 0, payouts: {} };
+  if (sTotal === 0) return { ...base, status: "NO_WINNERS", houseTake: pot, payouts: {} };
+  return { ...base, status: ties.length ? "DEAD_HEAT" : "PAID", houseTake: 0, payouts: splitPot(pot, userStake, sTotal) };
+}
+
+function finishingOrder(leaderboard) {
+  return [1, 2, 3].map((position) => (leaderboard || []).find((r) => r.position === position) || null);
+}
+
+// Number of ways to fill `k` places from `n` tied players.
+function orderings(n, k) {
+  let ways = 1;
+  for (let i = 0; i < k; i += 1) ways *= n - i;
+  return ways;
+}
+
+// With a dead heat in the top 3, any order of the tied players counts; each winning
+// ticket's share is 1 over the number of orders that count.
+export function settleTrifectaMarket({ masterpieceId, position, bets, leaderboard }) {
+  const order = finishingOrder(leaderboard);
+  const uids = order.map((row) => row?.profile?.uid || null);
+  const groups = tieGroups(leaderboard).filter((g) => g.from <= 3);
+  const groupAt = (rank) => groups.find((g) => g.from <= rank && rank <= g.to);
+  const complete = [1, 2, 3].every((rank) => groupAt(rank));
+  const combinations = groups.reduce((ways, g) => ways * orderings(g.rows.length, Math.min(g.to, 3) - g.from + 1), 1);
+  const ties = groups.filter((g) => g.rows.length > 1).map((g) => describeTie(g, 1 / combinations));
+
+  return settleSpecialPool({
+    masterpieceId,
+    position,
+    market: MARKET_TYPES.TRIFECTA,
+    marketBets: marketBetsFor(bets, masterpieceId, position, MARKET_TYPES.TRIFECTA),
+    shareOf: (b) => {
+      const picks = b.picks || [];
+      if (!complete || new Set(picks).size !== 3) return 0;
+      const wins = [1, 2, 3].every((rank, i) => groupAt(rank).rows.some((row) => row.profile.uid === picks[i]));
+      return wins ? 1 / combinations : 0;
+    },
+    winnerUid: uids.join(","),
+    winnerName: order.map(rowName).join(" / "),
+    ties,
+  });
+}
+
+// A tie across 3rd place puts every tied player in the top 3 at a reduced share.
+export function settleTop3Market({ masterpieceId, position, bets, leaderboard }) {
+  const order = finishingOrder(leaderboard);
+  const uids = order.map((row) => row?.profile?.uid).filter(Boolean);
+  const { shares, ties } = deadHeatShares(leaderboard, 3);
+  return settleSpecialPool({
+    masterpieceId,
+    position,
+    market: MARKET_TYPES.TOP3,
+    marketBets: marketBetsFor(bets, masterpieceId, position, MARKET_TYPES.TOP3),
+    shareOf: (b) => shares.get(b.pickedUid) || 0,
+    winnerUid: uids.join(","),
+    winnerName: order.map(rowName).join(" / "),
+    ties,
+  });
+}
+
+// The player with more masterpiecePoints wins. On a tie every stake is refunded; bets
+// where either player never took part are voided before this runs.
+export function settleHeadToHeadMarket({ masterpieceId, position, market, bets, leaderboard }) {
+  const [, uidA, uidB] = String(market).split(":");
+  const rowFor = (uid) => (leaderboard || []).find((r) => r?.profile?.uid === uid) || null;
+  const points = (uid) => Number(rowFor(uid)?.masterpiecePoints || 0);
+  const marketBets = marketBetsFor(bets, masterpieceId, position, market);
+
+  if (points(uidA) === points(uidB)) {
+    const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+    return {
+      masterpieceId,
+      position,
+      market,
+      pot,
+      winnerUid: null,
+      winnerName: "Tie",
+      status: pot === 0 ? "PAID" : "PUSH",
+      houseTake: 0,
+      carryover: 0,
+      payouts: stakeByUser(marketBets),
+    };
+  }
+
+  const winnerUid = points(uidA) > points(uidB) ? uidA : uidB;
+  return settleSpecialPool({
+    masterpieceId,
+    position,
+    market,
+    marketBets,
+    shareOf: (b) => (b.pickedUid === winnerUid ? 1 : 0),
+    winnerUid,
+    winnerName: rowFor(winnerUid)?.profile?.displayName || winnerUid,
+  });
+}
+
+// Decimal odds for a fixed-odds bet: the model probability is scaled up by the margin
+// and the price rounded down to two decimals, never below 1.01.
+export function priceFixedOdds(probability, { marginBps = 0, maxOdds = Infinity } = {}) {
+  const p = Number(probability);
+  if (!Number.isFinite(p) || p <= 0 || p >= 1) return null;
+  const fair = 1 / (p * (1 + marginBps / 10_000));
+  const odds = Math.floor(Math.min(fair, maxOdds) * 100) / 100;
+  return odds >= 1.01 ? odds : null;
+}
+
+function pickMatches(bet, winnerUid, winnerName) {
+  if (winnerUid && bet.pickedUid) return bet.pickedUid === winnerUid;
+  if (winnerName) return normalizeName(bet.pickedName) === normalizeName(winnerName);
+  return false;
+}
+
+// What the house owes on top of returning stakes, as `stake * (odds - 1)`, for the
+// fixed-odds bets on one pick (`player`) and across the whole market (`market`).
+export function fixedOddsLiability({ masterpieceId, position, bets, pickedUid }) {
+  const marketBets = marketBetsFor(bets, masterpieceId, position, BET_MODES.FIXED);
+  let market = 0;
+  let player = 0;
+  for (const b of marketBets) {
+    const exposure = b.amount * (Number(b.odds || 1) - 1);
+    market += exposure;
+    if (pickedUid && b.pickedUid === pickedUid) player += exposure;
+  }
+  return { market, player };
+}
+
+// Picks that won `position`: the winner, or every player in a dead heat for it. Falls
+// back to the winner's uid or name when there is no leaderboard to check ties on.
+function positionWinners({ leaderboard, position, winnerUid, winnerName }) {
+  const heat = leaderboard ? deadHeatAt(leaderboard, position) : null;
+  if (!heat) return { winners: [{ uid: winnerUid, name: winnerName }], ratio: 1, tie: null };
+  return {
+    winners: heat.rows.map((row) => ({ uid: row.profile.uid, name: row.profile.displayName })),
+    ratio: heat.ratio,
+    tie: heat.tie,
+  };
+}
+
+// Result fields naming the winner, or every player in the dead heat.
+function winnerFields({ winnerUid, winnerName, tie }) {
+  if (!tie) return { winnerUid, winnerName };
+  return {
+    winnerUid: tie.players.map((p) => p.uid).join(","),
+    winnerName: tie.players.map((p) => p.name).join(" & "),
+    deadHeat: [tie],
+  };
+}
+
+// Fixed-odds bets are paid `floor(stake * odds)` from the market's stakes; the house
+// keeps what is left over or tops the pot up when the stakes don't cover the payouts.
+// In a dead heat only the tie ratio of the stake is paid at the full odds.
+export function settleFixedOddsMarket({ masterpieceId, position, bets, leaderboard, winnerUid, winnerName }) {
+  const marketBets = marketBetsFor(bets, masterpieceId, position, BET_MODES.FIXED);
+  const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+  const { winners, ratio, tie } = positionWinners({ leaderboard, position, winnerUid, winnerName });
+
+  const payouts = {};
+  let paidSum = 0;
+  for (const b of marketBets.filter((bet) => winners.some((w) => pickMatches(bet, w.uid, w.name)))) {
+    const paid = Math.floor(b.amount * ratio * Number(b.odds || 1));
+    payouts[b.user] = (payouts[b.user] || 0) + paid;
+    paidSum += paid;
+  }
+
+  return {
+    masterpieceId,
+    position,
+    market: BET_MODES.FIXED,
+    pot,
+    ...winnerFields({ winnerUid, winnerName, tie }),
+    status: paidSum === 0 && pot > 0 ? "NO_WINNERS" : tie && pot > 0 ? "DEAD_HEAT" : "PAID",
+    houseTake: Math.max(0, pot - paidSum),
+    houseTopUp: Math.max(0, paidSum - pot),
     carryover: 0,
     payouts,
   };
 }
+
+// Live breakdown of an unsettled market using the same pot and pro-rata rules as
+// settleMarket. `multiplier` is the return per unit staked on a pick if it wins.
+export function computeMarketPool({ masterpieceId, position, bets, carryover = 0 }) {
+  const marketBets = marketBetsFor(bets, masterpieceId, position);
+  const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+
+  const picks = new Map();
+  for (const b of marketBets) {
+    const key = b.pickedUid || normalizeName(b.pickedName);
+    if (!picks.has(key)) {
+      picks.set(key, { pickedUid: b.pickedUid || null, pickedName: b.pickedName || b.pickedUid, stake: 0, users: new Set() });
+    }
+    const pick = picks.get(key);
+    pick.stake += b.amount;
+    pick.users.add(b.user);
+  }
+
+  const houseTakeIfNoWinner = Math.floor(pot * 0.5);
+
+  return {
+    masterpieceId,
+    position,
+    pot,
+    bets: marketBets.length,
+    bettors: new Set(marketBets.map((b) => b.user)).size,
+    carryover: {
+      current: Number(carryover || 0),
+      // Added to this position's carryover if nobody backed the winner.
+      ifNoWinner: pot - houseTakeIfNoWinner,
+    },
+    houseTakeIfNoWinner,
+    picks: [...picks.values()]
+      .map(({ users, ...pick }) => ({
+        ...pick,
+        bettors: users.size,
+        share: pick.stake / pot,
+        multiplier: pot / pick.stake,
+      }))
+      .sort((a, b) => b.stake - a.stake),
+  };
+}
+
+// Position pools: winners split the pot pro-rata. In a dead heat the pot is divided
+// equally between the tied players and each part split among that player's backers.
+// Pot nobody backed a winner for goes half to the house, half to carryover.
+export function settleMarket({ masterpieceId, position, bets, leaderboard, winnerUid, winnerName }) {
+  const marketBets = marketBetsFor(bets, masterpieceId, position);
+  const { winners, tie } = positionWinners({ leaderboard, position, winnerUid, winnerName });
+  const base = { masterpieceId, position, ...winnerFields({ winnerUid, winnerName, tie }) };
+
+  const pot = marketBets.reduce((sum, b) => sum + b.amount, 0);
+
+  if (pot === 0) {
+    return {
+      ...base,
+      pot: 0,
+      status: "PAID",
+      houseTake: 0,
+      carryover: 0,
+      payouts: {},
+    };
+  }
+
+  // One part of the pot per winner; the leftover units go to the first parts.
+  const payouts = {};
+  let unclaimed = 0;
+  winners.forEach((winner, i) => {
+    const part = Math.floor(pot / winners.length) + (i < pot % winners.length ? 1 : 0);
+    const winningBets = marketBets.filter((b) => pickMatches(b, winner.uid, winner.name));
+    const sTotal = winningBets.reduce((sum, b) => sum + b.amount, 0);
+    if (sTotal === 0) {
+      unclaimed += part;
+      return;
+    }
+    for (const [user, paid] of Object.entries(splitPot(part, stakeByUser(winningBets), sTotal))) {
+      payouts[user] = (payouts[user] || 0) + paid;
+    }
+  });
+
+  // NO WINNERS: house keeps half, remainder carryover
+  const houseTake = Math.floor(unclaimed * 0.5);
+  const carryover = unclaimed - houseTake;
+
+  return {
+    ...base,
+    pot,
+    status: unclaimed === pot ? "NO_WINNERS" : tie ? "DEAD_HEAT" : "PAID",
+    houseTake,
+    carryover,
+    payouts,
+  };
+}
+
+// Adds the voided stakes of a market to its settled result: they join the pot and go
+// straight back to their bettors, with no house take or carryover on them.
+export function withRefunds(result, bets) {
+  const market = result.market || BET_MODES.POOL;
+  const refundBets = bets.filter((b) => inMarket(b, result.masterpieceId, result.position, market) && isVoided(b));
+  if (refundBets.length === 0) return result;
+
+  const refunds = stakeByUser(refundBets);
+  const payouts = { ...result.payouts };
+  for (const [user, amount] of Object.entries(refunds)) payouts[user] = (payouts[user] || 0) + amount;
+  const refunded = refundBets.reduce((sum, b) => sum + b.amount, 0);
+  return {
+    ...result,
+    pot: result.pot + refunded,
+    // Nothing left to settle once every bet is void.
+    status: result.pot === 0 ? BET_STATUS.VOIDED : result.status,
+    refunded,
+    payouts,
+  };
+}
+
+// A voided market refunds every stake; its bets must already be marked void.
+export function voidMarket({ masterpieceId, position, market = BET_MODES.POOL, bets, reason }) {
+  const empty = {
+    masterpieceId,
+    position,
+    ...(market === BET_MODES.POOL ? {} : { market }),
+    pot: 0,
+    winnerUid: null,
+    winnerName: null,
+    status: BET_STATUS.VOIDED,
+    houseTake: 0,
+    carryover: 0,
+    payouts: {},
+  };
+  return { ...withRefunds(empty, bets), status: BET_STATUS.VOIDED, voidReason: reason };
+}
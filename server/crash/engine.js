@@ -57,6 +57,11 @@ export class CrashEngine extends EventEmitter {
       const data = JSON.parse(raw);
       if (Array.isArray(data)) {
         this.history = data;
+        // Continue numbering after a restart so on-chain round ids are never reused.
+        const last = data[data.length - 1];
+        if (Number.isInteger(last?.roundNumber)) {
+          this.roundNumber = last.roundNumber;
+        }
       }
     } catch (error) {
       this.logger?.error?.("Failed to load crash history", error);
@@ -211,6 +216,10 @@ export class CrashEngine extends EventEmitter {
     return !this.round.bets.has(address);
   }
 
+  getBet(address) {
+    return this.round?.bets.get(address) || null;
+  }
+
   registerBet({ address, amount, amountWei }) {
     if (!this.round) throw new Error("Round not available");
     if (this.round.phase !== CRASH_PHASES.BETTING) throw new Error("Betting is closed");
@@ -256,6 +265,26 @@ export class CrashEngine extends EventEmitter {
     return bet;
   }
 
+  // Undoes a cashout whose payout transaction never went through. A bet still in a running
+  // round can cash out again; once the round has crashed it lost and is settled like the rest.
+  async revertCashout(round, address) {
+    const bet = round?.bets.get(address);
+    if (!bet?.cashedOut) return;
+    bet.cashedOut = false;
+    bet.cashoutMultiplier = null;
+    bet.payout = null;
+    bet.payoutWei = null;
+    this.emitState();
+
+    if (round !== this.round || round.phase !== CRASH_PHASES.RUNNING) {
+      try {
+        await this.settleLoser?.(bet, round);
+      } catch (error) {
+        this.logger?.error?.("Failed to settle crash loser", error);
+      }
+    }
+  }
+
   getHistory() {
     return this.history.slice(-50);
   }
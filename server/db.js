@@ -8,4 +8,61 @@ export async function getOrCreateUser(loginAddress) {
   return prisma.user.create({ data: { loginAddress } });
 }
 
+export function getUserById(id) {
+  return prisma.user.findUnique({ where: { id } });
+}
+
+export function setUserRole(loginAddress, role) {
+  return prisma.user.upsert({
+    where: { loginAddress },
+    update: { role },
+    create: { loginAddress, role },
+  });
+}
+
+export function listPrivilegedUsers() {
+  return prisma.user.findMany({ where: { role: { not: "user" } }, orderBy: { createdAt: "asc" } });
+}
+
+export function recordAuditLog(entry) {
+  return prisma.auditLog.create({ data: entry });
+}
+
+export function listAuditLog({ limit = 100, action } = {}) {
+  return prisma.auditLog.findMany({
+    where: action ? { action } : undefined,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+export function recordLeaderboardSnapshot(masterpieceId, sample) {
+  return prisma.leaderboardSnapshot.create({
+    data: {
+      masterpieceId: Number(masterpieceId),
+      takenAt: new Date(sample.at),
+      collectedPoints: sample.collectedPoints,
+      requiredPoints: sample.requiredPoints,
+      leaderboard: sample.leaderboard,
+      resources: sample.resources ?? undefined,
+    },
+  });
+}
+
+// Oldest first. `limit` keeps the most recent ones.
+export async function listLeaderboardSnapshots(masterpieceId, { limit } = {}) {
+  const rows = await prisma.leaderboardSnapshot.findMany({
+    where: { masterpieceId: Number(masterpieceId) },
+    orderBy: { takenAt: "desc" },
+    take: limit,
+  });
+  return rows.reverse().map((row) => ({
+    at: row.takenAt.toISOString(),
+    collectedPoints: row.collectedPoints,
+    requiredPoints: row.requiredPoints,
+    leaderboard: Array.isArray(row.leaderboard) ? row.leaderboard : [],
+    resources: Array.isArray(row.resources) ? row.resources : [],
+  }));
+}
+
 export { prisma };
@@ -0,0 +1,45 @@
+// server/futures.js
+
+function toIso(value) {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.valueOf()) ? null : date.toISOString();
+}
+
+// Players who appeared on the leaderboards of the `recent` latest masterpieces in an
+// odds history payload, most appearances first.
+export function recentParticipants(history, { recent = 5 } = {}) {
+  const masterpieces = [...(history?.masterpieces || [])]
+    .sort((a, b) => Number(b.id) - Number(a.id))
+    .slice(0, recent);
+
+  const players = new Map();
+  for (const mp of masterpieces) {
+    for (const row of mp.leaderboard || []) {
+      const uid = row?.profile?.uid;
+      if (!uid) continue;
+      if (!players.has(uid)) players.set(uid, { uid, name: uid, appearances: 0 });
+      const player = players.get(uid);
+      if (player.name === uid && row.profile.displayName) player.name = row.profile.displayName;
+      player.appearances += 1;
+    }
+  }
+  return [...players.values()].sort((a, b) => b.appearances - a.appearances || a.name.localeCompare(b.name));
+}
+
+// Checks the betting window and start deadline an admin sent for a futures market.
+export function parseFuturesWindow({ opensAt, closesAt, startDeadline }, now = Date.now()) {
+  const window = {
+    opensAt: toIso(opensAt) || new Date(now).toISOString(),
+    closesAt: toIso(closesAt),
+    startDeadline: toIso(startDeadline),
+  };
+  if (!window.closesAt) return { error: "closesAt must be a date" };
+  if (!window.startDeadline) return { error: "startDeadline must be a date" };
+  if (Date.parse(window.closesAt) <= Date.parse(window.opensAt)) return { error: "closesAt must be after opensAt" };
+  if (Date.parse(window.closesAt) <= now) return { error: "closesAt must be in the future" };
+  if (Date.parse(window.startDeadline) < Date.parse(window.closesAt)) {
+    return { error: "startDeadline must not be before closesAt" };
+  }
+  return window;
+}
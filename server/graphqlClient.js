@@ -0,0 +1,218 @@
+// server/graphqlClient.js
+
+// The response carried an `errors` array. Not retried: asking again gets the same answer.
+export class GraphQLError extends Error {
+  constructor(errors, { operation = null, data = null } = {}) {
+    const first = errors?.[0]?.message || "unknown error";
+    super(`GraphQL error${operation ? ` in ${operation}` : ""}: ${first}`);
+    this.name = "GraphQLError";
+    this.errors = errors;
+    this.operation = operation;
+    this.data = data;
+  }
+}
+
+// The request failed before a GraphQL response came back: a network error, a non-2xx
+// status or a body that isn't JSON. `retryable` is set for network errors, 429 and 5xx.
+export class GraphQLRequestError extends Error {
+  constructor(message, { status = null, retryable = false, retryAfterMs = null, operation = null, cause } = {}) {
+    super(message, cause ? { cause } : undefined);
+    this.name = "GraphQLRequestError";
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+    this.operation = operation;
+  }
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function operationName(query) {
+  return /^\s*(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || null;
+}
+
+function retryAfter(header) {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const at = Date.parse(header);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+// GraphQL client with a response cache, shared in-flight requests, retries with
+// exponential backoff and a cap on concurrent upstream requests.
+//
+// A cached response is fresh for `ttlMs`. For `staleMs` after that it is still served
+// while one background request refreshes it; past that callers wait for a new one.
+// Errors are never cached, and a failed refresh keeps the stale value.
+export function createGraphQLClient({
+  url,
+  headers = () => ({}),
+  ttlMs = 15_000,
+  staleMs = 5 * 60_000,
+  maxEntries = 1_000,
+  maxRetries = 3,
+  baseDelayMs = 500,
+  maxDelayMs = 10_000,
+  concurrency = 4,
+  fetchImpl = fetch,
+  logger = console,
+}) {
+  const cache = new Map();
+  const inFlight = new Map();
+  const waiting = [];
+  let active = 0;
+  const stats = {
+    requests: 0,
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    shared: 0,
+    upstream: 0,
+    retries: 0,
+    errors: 0,
+    refreshErrors: 0,
+  };
+
+  // A finished request hands its slot straight to the next one waiting.
+  async function withSlot(run) {
+    if (active >= concurrency) await new Promise((resolve) => waiting.push(resolve));
+    else active += 1;
+    try {
+      return await run();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active -= 1;
+    }
+  }
+
+  async function send(query, variables, operation) {
+    const requestHeaders = { "content-type": "application/json", ...headers() };
+    let response;
+    try {
+      response = await fetchImpl(url, {
+        method: "POST",
+        headers: requestHeaders,
+        body: JSON.stringify({ query, variables }),
+      });
+    } catch (e) {
+      throw new GraphQLRequestError(`GraphQL request failed: ${e?.message || e}`, { retryable: true, operation, cause: e });
+    }
+    stats.upstream += 1;
+
+    let json = null;
+    try {
+      json = await response.json();
+    } catch (e) {
+      json = null;
+    }
+    if (Array.isArray(json?.errors) && json.errors.length) {
+      throw new GraphQLError(json.errors, { operation, data: json.data ?? null });
+    }
+    if (!response.ok) {
+      throw new GraphQLRequestError(`GraphQL request failed with HTTP ${response.status}`, {
+        status: response.status,
+        retryable: response.status === 429 || response.status >= 500,
+        retryAfterMs: retryAfter(response.headers?.get?.("retry-after")),
+        operation,
+      });
+    }
+    if (!json) throw new GraphQLRequestError("GraphQL response was not JSON", { status: response.status, operation });
+    return json;
+  }
+
+  async function fetchWithRetry(query, variables) {
+    const operation = operationName(query);
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await withSlot(() => send(query, variables, operation));
+      } catch (e) {
+        if (!(e instanceof GraphQLRequestError) || !e.retryable || attempt >= maxRetries) throw e;
+        stats.retries += 1;
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        // Full jitter keeps callers that failed together from retrying together.
+        await sleep(Math.max(e.retryAfterMs ?? 0, Math.random() * backoff));
+      }
+    }
+  }
+
+  function remember(key, value, ttl) {
+    const now = Date.now();
+    cache.delete(key);
+    cache.set(key, { value, fetchedAt: now, freshUntil: now + ttl, staleUntil: now + ttl + staleMs });
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value);
+  }
+
+  // One upstream request per key at a time; everyone asking meanwhile gets its result.
+  function load(key, query, variables, ttl) {
+    if (inFlight.has(key)) {
+      stats.shared += 1;
+      return inFlight.get(key);
+    }
+    const run = fetchWithRetry(query, variables)
+      .then((value) => {
+        remember(key, value, ttl);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, run);
+    return run;
+  }
+
+  // `fresh` skips the cache (the result still refreshes it); `ttlMs` overrides the
+  // default freshness for this query.
+  async function request(query, variables = {}, { fresh = false, ttlMs: ttl = ttlMs } = {}) {
+    stats.requests += 1;
+    const key = JSON.stringify([query, variables]);
+    const entry = cache.get(key);
+    const now = Date.now();
+
+    if (!fresh && entry && now < entry.freshUntil) {
+      stats.hits += 1;
+      return entry.value;
+    }
+    if (!fresh && entry && now < entry.staleUntil) {
+      stats.staleHits += 1;
+      if (!inFlight.has(key)) {
+        load(key, query, variables, ttl).catch((e) => {
+          stats.refreshErrors += 1;
+          logger?.error?.("GraphQL background refresh failed", e);
+        });
+      }
+      return entry.value;
+    }
+
+    stats.misses += 1;
+    try {
+      return await load(key, query, variables, ttl);
+    } catch (e) {
+      stats.errors += 1;
+      throw e;
+    }
+  }
+
+  function invalidate() {
+    cache.clear();
+  }
+
+  function getStats() {
+    const served = stats.hits + stats.staleHits + stats.misses;
+    return {
+      ...stats,
+      hitRate: served ? (stats.hits + stats.staleHits) / served : null,
+      freshHitRate: served ? stats.hits / served : null,
+      cacheSize: cache.size,
+      inFlight: inFlight.size,
+      active,
+      queued: waiting.length,
+      ttlMs,
+      staleMs,
+      concurrency,
+    };
+  }
+
+  return { request, invalidate, getStats };
+}
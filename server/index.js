@@ -7,14 +7,55 @@ import {
   Contract,
   JsonRpcProvider,
   Wallet,
+  formatUnits,
+  id as keccakId,
   keccak256,
   parseUnits,
   toUtf8Bytes
 } from "ethers";
 import { Server as SocketIOServer } from "socket.io";
-import { makeStore, newId, settleMarket } from "./betting.js";
-import { prisma } from "./db.js";
-import { computeModelOdds } from "./odds.js";
+import { ROLES, createAuth, hasRole, isRole, normalizeWallet } from "./auth.js";
+import {
+  BET_MODES,
+  MARKET_TYPES,
+  SPECIAL_MARKET_POSITION,
+  betMarket,
+  computeMarketPool,
+  fixedOddsLiability,
+  newId,
+  priceFixedOdds,
+} from "./betting.js";
+import { CrashEngine } from "./crash/engine.js";
+import { fetchBetPlacedUsers, normalizeTxHash, verifyBetTransaction } from "./lib/masterpiecePool.js";
+import { getVaultReadContract } from "./lib/vaultLedger.js";
+import {
+  getOrCreateUser,
+  getUserById,
+  listAuditLog,
+  listLeaderboardSnapshots,
+  listPrivilegedUsers,
+  prisma,
+  recordAuditLog,
+  recordLeaderboardSnapshot,
+  setUserRole,
+} from "./db.js";
+import { GraphQLError, createGraphQLClient } from "./graphqlClient.js";
+import { createEventIndexer } from "./indexer.js";
+import { HOUSE_ACCOUNT, createLedger } from "./ledger.js";
+import { createMarketWatcher } from "./marketWatcher.js";
+import { createMarketRegistry, hasStarted, MARKET_STATE } from "./markets.js";
+import { parseFuturesWindow, recentParticipants } from "./futures.js";
+import { MODEL_POSITIONS, computeModelOdds, positionOdds } from "./odds.js";
+import { BET_OUTCOME, BET_SORT_FIELDS, betOutcomes, walletBets } from "./betOutcomes.js";
+import { backtestModelOdds, fitModelParams, loadModelParams, saveModelParams } from "./backtest.js";
+import { buildModelHistory, modelPlayerNames, writeModelHistory } from "./modelHistory.js";
+import { JOB_STATUS, createOddsHistory } from "./oddsHistory.js";
+import { playerProfile } from "./players.js";
+import { createProjectionTracker } from "./projections.js";
+import { createReconciler } from "./reconciliation.js";
+import { SETTLEMENT_STATUS, createSettlementService, settlementKey } from "./settlement.js";
+import { downsampleTimeline } from "./timeline.js";
+import { createPrismaStore } from "./store.js";
 
 const app = express();
 const httpServer = createServer(app);
@@ -42,9 +83,41 @@ const dataDir = process.env.BETS_DATA_DIR
   ? path.resolve(process.env.BETS_DATA_DIR)
   : path.join(__dirname, "data");
 fs.mkdirSync(dataDir, { recursive: true });
-const { store, persist } = makeStore(dataDir);
+// The whole store is loaded from the database on start; without it there is nothing to
+// serve bets from, so the server stops here with a pointer to the setup.
+const { store, persist, flush } = await createPrismaStore(prisma).catch((e) => {
+  console.error(
+    "Could not load the store from DATABASE_URL. Set it to a migrated database (see Database setup in the README).",
+    e
+  );
+  process.exit(1);
+});
+
+// Let queued store writes land before the process exits.
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => {
+    flush()
+      .catch(() => undefined)
+      .finally(() => process.exit(0));
+  });
+}
 const oddsHistoryPath = path.join(dataDir, "odds_history.json");
 const modelHistoryPath = path.join(dataDir, "history.json");
+const modelParamsPath = path.join(dataDir, "model_params.json");
+
+function numberEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+}
+
+function walletListEnv(name) {
+  return new Set(
+    String(process.env[name] || "")
+      .split(",")
+      .map((value) => normalizeWallet(value))
+      .filter(Boolean)
+  );
+}
 
 // ---- Craft World GraphQL ----
 const GRAPHQL_URL = "https://craft-world.gg/graphql";
@@ -54,10 +127,53 @@ const BET_MAX_AMOUNT = Number.isFinite(Number(process.env.BET_MAX_AMOUNT))
 const RONIN_RPC = process.env.RONIN_RPC || "https://api.roninchain.com/rpc";
 const DYNW_TOKEN_ADDRESS = process.env.DYNW_TOKEN_ADDRESS || "0x17ff4EA5dD318E5FAf7f5554667d65abEC96Ff57";
 const MASTERPIECE_POOL_ADDRESS = process.env.MASTERPIECE_POOL_ADDRESS || "";
+const CRASH_VAULT_ADDRESS = process.env.CRASH_VAULT_ADDRESS || "";
+const VAULT_LEDGER_ADDRESS = process.env.VAULT_LEDGER_ADDRESS || "";
 const TREASURY_ADDRESS = process.env.TREASURY_ADDRESS || "";
 const OPERATOR_PRIVATE_KEY = process.env.OPERATOR_PRIVATE_KEY || "";
 const DYNW_DECIMALS = 18;
+const JWT_SECRET = process.env.JWT_SECRET || "";
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
+const ADMIN_WALLETS = walletListEnv("ADMIN_WALLETS");
+const OPERATOR_WALLETS = walletListEnv("OPERATOR_WALLETS");
+const BET_CONFIRMATIONS = numberEnv("BET_CONFIRMATIONS", 1);
+const BET_CONFIRMATION_TIMEOUT_MS = numberEnv("BET_CONFIRMATION_TIMEOUT_MS", 60_000);
+const SETTLEMENT_CONFIRM_TIMEOUT_MS = numberEnv("SETTLEMENT_CONFIRM_TIMEOUT_MS", 120_000);
+const MARKET_WATCH_POLL_MS = numberEnv("MARKET_WATCH_POLL_MS", 60_000);
+const MARKET_SETTLE_GRACE_MS = numberEnv("MARKET_SETTLE_GRACE_MS", 5 * 60_000);
+const MARKET_WATCH_MAX_BACKOFF_MS = numberEnv("MARKET_WATCH_MAX_BACKOFF_MS", 30 * 60_000);
+const MARKET_CUTOFF_PERCENT = numberEnv("MARKET_CUTOFF_PERCENT", 95);
+const MARKET_CUTOFF_MINUTES = numberEnv("MARKET_CUTOFF_MINUTES", null);
+const MARKET_VOID_AFTER_HOURS = numberEnv("MARKET_VOID_AFTER_HOURS", 336);
+const FUTURES_RECENT_MASTERPIECES = numberEnv("FUTURES_RECENT_MASTERPIECES", 5);
+const LEDGER_RECONCILE_INTERVAL_MS = numberEnv("LEDGER_RECONCILE_INTERVAL_MS", 15 * 60_000);
+const INDEXER_ENABLED = process.env.INDEXER_ENABLED !== "false";
+const INDEXER_START_BLOCK = numberEnv("INDEXER_START_BLOCK", null);
+const INDEXER_REORG_DEPTH = numberEnv("INDEXER_REORG_DEPTH", 12);
+const INDEXER_BATCH_BLOCKS = numberEnv("INDEXER_BATCH_BLOCKS", 2_000);
+const INDEXER_POLL_MS = numberEnv("INDEXER_POLL_MS", 5_000);
+const FIXED_ODDS_MARGIN_BPS = numberEnv("FIXED_ODDS_MARGIN_BPS", 500);
+const FIXED_ODDS_MAX_ODDS = numberEnv("FIXED_ODDS_MAX_ODDS", 50);
+const FIXED_ODDS_MAX_PLAYER_LIABILITY = numberEnv("FIXED_ODDS_MAX_PLAYER_LIABILITY", 250_000);
+const FIXED_ODDS_MAX_MARKET_LIABILITY = numberEnv("FIXED_ODDS_MAX_MARKET_LIABILITY", 1_000_000);
+const FIXED_ODDS_QUOTE_TTL_MS = numberEnv("FIXED_ODDS_QUOTE_TTL_MS", 120_000);
+const CRASH_MIN_BET = numberEnv("CRASH_MIN_BET", 10);
+const CRASH_MAX_BET = numberEnv("CRASH_MAX_BET", 2500);
+const CRASH_HOUSE_EDGE_BPS = numberEnv("CRASH_HOUSE_EDGE_BPS", 200);
+const CRASH_BETTING_MS = numberEnv("CRASH_BETTING_MS", 6000);
+const CRASH_COOLDOWN_MS = numberEnv("CRASH_COOLDOWN_MS", 4000);
 const CRAFTWORLD_APP_VERSION = process.env.CRAFTWORLD_APP_VERSION || "1.6.2";
+const CRAFTWORLD_CACHE_TTL_MS = numberEnv("CRAFTWORLD_CACHE_TTL_MS", 15_000);
+const CRAFTWORLD_CACHE_STALE_MS = numberEnv("CRAFTWORLD_CACHE_STALE_MS", 5 * 60_000);
+const CRAFTWORLD_MAX_RETRIES = numberEnv("CRAFTWORLD_MAX_RETRIES", 3);
+const CRAFTWORLD_CONCURRENCY = numberEnv("CRAFTWORLD_CONCURRENCY", 4);
+const ODDS_HISTORY_CONCURRENCY = numberEnv("ODDS_HISTORY_CONCURRENCY", 4);
+const ODDS_HISTORY_UNFINISHED_TTL_MS = numberEnv("ODDS_HISTORY_UNFINISHED_TTL_MS", 10 * 60_000);
+const ODDS_HISTORY_PAGE_LIMIT = 1000;
+const PROJECTION_SAMPLE_MS = numberEnv("PROJECTION_SAMPLE_MS", 60_000);
+const PROJECTION_WINDOW_MS = numberEnv("PROJECTION_WINDOW_MS", 60 * 60_000);
+const PROJECTION_SIMULATIONS = numberEnv("PROJECTION_SIMULATIONS", 5_000);
+const TIMELINE_MAX_POINTS = 1000;
 const ERC20_READ_ABI = [
   "function name() view returns (string)",
   "function symbol() view returns (string)",
@@ -69,14 +185,73 @@ const MASTERPIECE_POOL_ABI = [
   "function placeBet(bytes32 betId, uint8 position, uint256 amount)",
   "function settleMarket(bytes32 betId, uint8 position, address[] winners, uint256[] payouts, uint256 houseTake, uint256 carryoverNext)",
   "function getPool(bytes32 betId) view returns (uint256)",
+  "function settled(bytes32 betId) view returns (bool)",
+  "function carryoverByPosition(uint8 position) view returns (uint256)",
+  "function stakes(bytes32 betId, address user) view returns (uint256)",
+];
+const CRASH_VAULT_ABI = [
+  "function cashout(bytes32 roundId, address user, uint256 payout)",
+  "function settleLoss(bytes32 roundId, address user)",
+  "function getStake(bytes32 roundId, address user) view returns (uint256)",
 ];
 const roninProvider = new JsonRpcProvider(RONIN_RPC);
 const dynwRead = DYNW_TOKEN_ADDRESS ? new Contract(DYNW_TOKEN_ADDRESS, ERC20_READ_ABI, roninProvider) : null;
 const operatorSigner = OPERATOR_PRIVATE_KEY ? new Wallet(OPERATOR_PRIVATE_KEY, roninProvider) : null;
+const dynwOperator =
+  operatorSigner && DYNW_TOKEN_ADDRESS
+    ? new Contract(
+        DYNW_TOKEN_ADDRESS,
+        [...ERC20_READ_ABI, "function approve(address spender, uint256 amount) returns (bool)"],
+        operatorSigner
+      )
+    : null;
 const masterpiecePoolContract =
   operatorSigner && MASTERPIECE_POOL_ADDRESS
     ? new Contract(MASTERPIECE_POOL_ADDRESS, MASTERPIECE_POOL_ABI, operatorSigner)
     : null;
+// Read-only handles for reconciliation, which doesn't need the operator key.
+const masterpiecePoolRead = MASTERPIECE_POOL_ADDRESS
+  ? new Contract(MASTERPIECE_POOL_ADDRESS, MASTERPIECE_POOL_ABI, roninProvider)
+  : null;
+const vaultLedgerRead = getVaultReadContract(VAULT_LEDGER_ADDRESS, roninProvider);
+const crashVaultContract =
+  operatorSigner && CRASH_VAULT_ADDRESS
+    ? new Contract(CRASH_VAULT_ADDRESS, CRASH_VAULT_ABI, operatorSigner)
+    : null;
+// Wallets listed in ADMIN_WALLETS / OPERATOR_WALLETS are granted that role when they
+// sign in. Roles granted this way are never lowered here; revoke them through
+// /api/admin/users/role.
+async function getOrCreateUserWithRole(loginAddress) {
+  const user = await getOrCreateUser(loginAddress);
+  const role = ADMIN_WALLETS.has(loginAddress)
+    ? ROLES.ADMIN
+    : OPERATOR_WALLETS.has(loginAddress)
+      ? ROLES.OPERATOR
+      : null;
+  if (role && !hasRole(user.role, role)) return setUserRole(loginAddress, role);
+  return user;
+}
+
+const { issueNonce, verifySignIn, requireAuth, requireRole } = createAuth({
+  secret: JWT_SECRET,
+  expiresIn: JWT_EXPIRES_IN,
+  getOrCreateUser: getOrCreateUserWithRole,
+  getUserById,
+});
+
+// Written before the privileged action runs; if the entry can't be stored the action
+// doesn't happen.
+function audit(req, action, { targetType = null, targetId = null, data = null } = {}) {
+  return recordAuditLog({
+    actorUserId: req.auth?.userId || null,
+    actorAddress: req.auth?.address || null,
+    actorRole: req.auth?.role || ROLES.USER,
+    action,
+    targetType,
+    targetId: targetId === null ? null : String(targetId),
+    data: data ?? undefined,
+  });
+}
 
 const MASTERPIECE_QUERY = `
   query Masterpiece($id: ID) {
@@ -107,84 +282,63 @@ const MASTERPIECE_QUERY = `
   }
 `;
 
-async function fetchMasterpiece(id) {
-  const jwt = process.env.CRAFTWORLD_JWT;
-  if (!jwt) throw new Error("Missing CRAFTWORLD_JWT env var");
-
-  const r = await fetch(GRAPHQL_URL, {
-    method: "POST",
-    headers: {
+const craftWorld = createGraphQLClient({
+  url: GRAPHQL_URL,
+  headers: () => {
+    const jwt = process.env.CRAFTWORLD_JWT;
+    if (!jwt) throw new Error("Missing CRAFTWORLD_JWT env var");
+    return {
       accept: "*/*",
       "accept-language": "en-US,en;q=0.9",
-      "content-type": "application/json",
       authorization: `Bearer ${jwt}`,
       origin: "https://craft-world.gg",
       referer: "https://craft-world.gg/",
       "x-app-version": CRAFTWORLD_APP_VERSION,
-    },
-    body: JSON.stringify({
-      query: MASTERPIECE_QUERY,
-      variables: { id },
-    }),
-  });
-
-  const json = await r.json();
-  if (json.errors) throw new Error("GraphQL error");
-  return json;
-}
+    };
+  },
+  ttlMs: CRAFTWORLD_CACHE_TTL_MS,
+  staleMs: CRAFTWORLD_CACHE_STALE_MS,
+  maxRetries: CRAFTWORLD_MAX_RETRIES,
+  concurrency: CRAFTWORLD_CONCURRENCY,
+  logger: console,
+});
 
-function loadOddsHistoryCache() {
-  try {
-    if (!fs.existsSync(oddsHistoryPath)) return null;
-    const raw = fs.readFileSync(oddsHistoryPath, "utf-8");
-    return JSON.parse(raw);
-  } catch (e) {
-    console.error("Failed to read odds history cache:", e);
-    return null;
-  }
+// Served from the Craft World client's cache unless `fresh` is set.
+function fetchMasterpiece(id, { fresh = false } = {}) {
+  return craftWorld.request(MASTERPIECE_QUERY, { id }, { fresh });
 }
 
-function saveOddsHistoryCache(payload) {
-  try {
-    fs.writeFileSync(oddsHistoryPath, JSON.stringify(payload, null, 2));
-  } catch (e) {
-    console.error("Failed to write odds history cache:", e);
-  }
-}
+const oddsHistory = createOddsHistory({
+  store,
+  persist,
+  fetchMasterpiece,
+  concurrency: ODDS_HISTORY_CONCURRENCY,
+  unfinishedTtlMs: ODDS_HISTORY_UNFINISHED_TTL_MS,
+  legacyPath: oddsHistoryPath,
+  onUpdate: () => rebuildModelHistory(),
+  logger: console,
+});
 
-async function buildOddsHistory(endId) {
-  const history = [];
-  for (let id = 1; id <= endId; id += 1) {
-    try {
-      const json = await fetchMasterpiece(id);
-      if (json?.data?.masterpiece) {
-        history.push(json.data.masterpiece);
-      }
-    } catch (e) {
-      console.error("Failed to load masterpiece", id, e);
-    }
-  }
-  const payload = {
-    startId: 1,
-    endId,
-    updatedAt: new Date().toISOString(),
-    masterpieces: history,
+// Regenerates history.json from the finished masterpieces in the odds history. An empty
+// result is not written, so a hand-made file survives until there is history to replace it.
+function rebuildModelHistory() {
+  const history = buildModelHistory(oddsHistory.snapshots(), store.markets);
+  const summary = {
+    masterpieces: Object.keys(history).length,
+    players: new Set(Object.values(history).flatMap((mp) => mp.results.map((r) => r.player))).size,
+    written: false,
   };
-  saveOddsHistoryCache(payload);
-  return payload;
-}
-
-function normalizeWallet(address) {
-  if (!address || typeof address !== "string") return null;
-  const trimmed = address.trim().toLowerCase();
-  if (trimmed.startsWith("ronin:")) {
-    return `0x${trimmed.slice(6)}`;
-  }
-  return trimmed;
+  if (summary.masterpieces === 0) return summary;
+  writeModelHistory(modelHistoryPath, history);
+  return { ...summary, written: true };
 }
 
-function buildBetId(masterpieceId, position) {
-  return keccak256(toUtf8Bytes(`cw-bet:${masterpieceId}:${position}`));
+// Pool bets keep the original id so existing markets stay addressable; every other
+// market (fixed odds, trifecta, top-3, each head-to-head matchup) gets its own
+// on-chain pot, keyed by the market from `betMarket`.
+function buildBetId(masterpieceId, position, market = BET_MODES.POOL) {
+  const suffix = market === BET_MODES.POOL ? "" : `:${market}`;
+  return keccak256(toUtf8Bytes(`cw-bet:${masterpieceId}:${position}${suffix}`));
 }
 
 function ensureWalletRecord(address) {
@@ -205,7 +359,6 @@ function ensureWalletRecord(address) {
     delete store.wallets[legacyRoninKey];
     existing = store.wallets[normalized];
   } else if (existing && legacy) {
-    existing.balance = Number(existing.balance || 0) + Number(legacy.balance || 0);
     existing.ledger = [...(Array.isArray(existing.ledger) ? existing.ledger : []), ...(legacy.ledger || [])];
     existing.betIds = [...(Array.isArray(existing.betIds) ? existing.betIds : []), ...(legacy.betIds || [])];
     existing.lastSeenAt = new Date().toISOString();
@@ -229,68 +382,385 @@ function ensureWalletRecord(address) {
   return record;
 }
 
-function addLedgerEntry(address, entry) {
-  const record = ensureWalletRecord(address);
-  if (!record) return null;
-  record.ledger = Array.isArray(record.ledger) ? record.ledger : [];
-  record.balance = Number(record.balance || 0);
-  record.balance += Number(entry.amount || 0);
-  record.ledger.push({
-    id: newId(),
-    createdAt: new Date().toISOString(),
-    ...entry,
-  });
-  if (record.ledger.length > 100) {
-    record.ledger = record.ledger.slice(-100);
-  }
-  return record;
+// ---- Ledger ----
+const ledger = createLedger({
+  store,
+  persist,
+  normalizeWallet,
+  ensureWallet: ensureWalletRecord,
+  decimals: DYNW_DECIMALS,
+});
+const backfilled = ledger.backfill();
+if (backfilled) console.log(`Posted ${backfilled} missing ledger entries`);
+
+const reconciler = createReconciler({
+  store,
+  ledger,
+  poolContract: masterpiecePoolRead,
+  vaultContract: vaultLedgerRead,
+  tokenAddress: DYNW_TOKEN_ADDRESS,
+  decimals: DYNW_DECIMALS,
+  intervalMs: LEDGER_RECONCILE_INTERVAL_MS,
+  logger: console,
+});
+
+// ---- Settlement ----
+const { settleMasterpiece, voidMasterpiece, getSettlementStatus, voidBet } = createSettlementService({
+  store,
+  persist,
+  fetchMasterpiece,
+  poolContract: masterpiecePoolContract,
+  provider: roninProvider,
+  tokenContract: dynwOperator,
+  buildBetId,
+  normalizeWallet,
+  decimals: DYNW_DECIMALS,
+  ledger,
+  // Wallets the indexer saw stake in a market, including any that never posted the bet.
+  stakersOf: (betId) => eventIndexer.betEvents(betId, { limit: Number.MAX_SAFE_INTEGER }).events.map((e) => e.user),
+  fetchStakers: (betId) =>
+    fetchBetPlacedUsers({
+      provider: roninProvider,
+      poolAddress: MASTERPIECE_POOL_ADDRESS,
+      betId,
+      fromBlock: INDEXER_START_BLOCK ?? 0,
+      batchBlocks: INDEXER_BATCH_BLOCKS,
+    }),
+  confirmTimeoutMs: SETTLEMENT_CONFIRM_TIMEOUT_MS,
+  logger: console,
+});
+
+// ---- Markets ----
+const markets = createMarketRegistry({
+  store,
+  persist,
+  defaults: { cutoffPercent: MARKET_CUTOFF_PERCENT, cutoffMinutes: MARKET_CUTOFF_MINUTES },
+  onChange: (view) => io.emit("market:state", view),
+  logger: console,
+});
+
+// Settles finished masterpieces without anyone calling /api/settle. Needs the operator
+// key to send settlement transactions, so it stays idle without one.
+const marketWatcher = createMarketWatcher({
+  store,
+  markets,
+  fetchMasterpiece,
+  settleMasterpiece,
+  voidMasterpiece,
+  enabled: Boolean(operatorSigner),
+  pollMs: MARKET_WATCH_POLL_MS,
+  graceMs: MARKET_SETTLE_GRACE_MS,
+  voidAfterMs: MARKET_VOID_AFTER_HOURS > 0 ? MARKET_VOID_AFTER_HOURS * 3_600_000 : null,
+  maxBackoffMs: MARKET_WATCH_MAX_BACKOFF_MS,
+  logger: console,
+});
+
+// Leaderboard samples for live finish projections and the timeline, taken for every
+// market that's still open or waiting to settle.
+const projections = createProjectionTracker({
+  fetchMasterpiece,
+  saveSample: recordLeaderboardSnapshot,
+  loadSamples: listLeaderboardSnapshots,
+  watchedIds: () =>
+    Object.values(store.markets || {})
+      .filter((market) => !markets.isFinal(market.masterpieceId))
+      .map((market) => market.masterpieceId),
+  intervalMs: PROJECTION_SAMPLE_MS,
+  windowMs: PROJECTION_WINDOW_MS,
+  simulations: PROJECTION_SIMULATIONS,
+  logger: console,
+});
+
+// ---- Crash ----
+function crashRoundBetId(roundNumber) {
+  return keccakId(`crash:${roundNumber}`);
 }
 
+const crashEngine = new CrashEngine({
+  io,
+  dataDir,
+  bettingMs: CRASH_BETTING_MS,
+  cooldownMs: CRASH_COOLDOWN_MS,
+  houseEdgeBps: CRASH_HOUSE_EDGE_BPS,
+  logger: console,
+  settleLoser: async (bet, round) => {
+    if (!crashVaultContract) return;
+    const tx = await crashVaultContract.settleLoss(crashRoundBetId(round.roundNumber), bet.address);
+    // Only wait for submission so a slow block doesn't hold up the next round.
+    tx.wait().catch((e) => console.error("Crash settleLoss failed:", tx.hash, e));
+  },
+});
+
+// ---- Contract events ----
+// New events are pushed as `chain:event` so the frontend can refresh balances when
+// something happens to a wallet instead of polling.
+const eventIndexer = createEventIndexer({
+  store,
+  persist,
+  provider: roninProvider,
+  contracts: {
+    vaultLedger: VAULT_LEDGER_ADDRESS,
+    masterpiecePool: MASTERPIECE_POOL_ADDRESS,
+    crashVault: CRASH_VAULT_ADDRESS,
+  },
+  enabled: INDEXER_ENABLED,
+  startBlock: INDEXER_START_BLOCK,
+  reorgDepth: INDEXER_REORG_DEPTH,
+  batchBlocks: INDEXER_BATCH_BLOCKS,
+  pollMs: INDEXER_POLL_MS,
+  onEvents: (events) => {
+    for (const event of events) io.emit("chain:event", event);
+  },
+  logger: console,
+});
+
+io.on("connection", (socket) => {
+  socket.on("crash:state:request", () => {
+    socket.emit("crash:state", crashEngine.getPublicState());
+  });
+});
+
 // ---- API routes FIRST ----
 app.get("/api/health", (_req, res) => res.json({ ok: true }));
 
+app.post("/api/auth/nonce", (req, res) => {
+  const issued = issueNonce(req.body?.walletAddress);
+  if (issued.error) return res.status(400).json({ error: issued.error });
+  res.json({
+    ok: true,
+    walletAddress: issued.address,
+    nonce: issued.nonce,
+    message: issued.message,
+    expiresAt: new Date(issued.expiresAt).toISOString(),
+  });
+});
+
+app.post("/api/auth/verify", async (req, res) => {
+  try {
+    const result = await verifySignIn(req.body?.walletAddress, req.body?.signature);
+    if (result.error) return res.status(401).json({ error: result.error });
+    res.json({ ok: true, ...result });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/auth/me", requireAuth, async (req, res) => {
+  try {
+    const user = req.auth.userId ? await getUserById(req.auth.userId) : null;
+    res.json({
+      ok: true,
+      loginAddress: req.auth.address,
+      userId: req.auth.userId,
+      role: user?.role || ROLES.USER,
+    });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
 app.get("/api/masterpiece/:id", async (req, res) => {
   try {
     const id = Number(req.params.id);
     const json = await fetchMasterpiece(id);
     res.json(json);
   } catch (e) {
+    if (e instanceof GraphQLError) return res.status(502).json({ error: e.message, errors: e.errors });
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/masterpiece/:id/projection", async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: "invalid masterpiece id" });
+    const projection = await projections.projection(id);
+    if (projection.error) return res.status(409).json({ error: projection.error });
+    res.json({ ok: true, projection });
+  } catch (e) {
+    if (e instanceof GraphQLError) return res.status(502).json({ error: e.message, errors: e.errors });
     res.status(500).json({ error: String(e) });
   }
 });
 
-app.get("/api/odds/history", async (req, res) => {
+// Recorded leaderboard and resource progress, thinned to `points` samples, for the
+// `top` players on the latest sample.
+app.get("/api/masterpiece/:id/timeline", async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: "invalid masterpiece id" });
+    const points = Math.min(TIMELINE_MAX_POINTS, Math.max(2, Number.parseInt(req.query.points, 10) || 200));
+    const top = Math.min(20, Math.max(1, Number.parseInt(req.query.top, 10) || 5));
+    // Asking for a timeline keeps the masterpiece sampled for a while.
+    await projections.watch(id).catch((e) => console.error("Failed to sample masterpiece", id, e));
+    const samples = await listLeaderboardSnapshots(id);
+    res.json({ ok: true, timeline: { masterpieceId: id, ...downsampleTimeline(samples, { points, top }) } });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// Stored masterpieces in a range, paginated. Missing or stale ids are fetched by a
+// background job; until it finishes the response is 202 with whatever is stored so far.
+app.get("/api/odds/history", (req, res) => {
   try {
     const endId = Number(req.query.endId);
-    if (!Number.isFinite(endId) || endId <= 0) {
-      return res.status(400).json({ error: "endId must be a positive number" });
+    if (!Number.isInteger(endId) || endId <= 0) {
+      return res.status(400).json({ error: "endId must be a positive integer" });
     }
+    const startId = req.query.startId === undefined ? 1 : Number(req.query.startId);
+    if (!Number.isInteger(startId) || startId <= 0 || startId > endId) {
+      return res.status(400).json({ error: "startId must be a positive integer no greater than endId" });
+    }
+    const offset = Math.max(0, Number.parseInt(req.query.offset, 10) || 0);
+    const limit = Math.min(ODDS_HISTORY_PAGE_LIMIT, Math.max(1, Number.parseInt(req.query.limit, 10) || 500));
 
     const refresh = String(req.query.refresh || "").toLowerCase() === "true";
-    const cached = loadOddsHistoryCache();
-    if (!refresh && cached && cached.endId >= endId) {
-      return res.json({ ok: true, data: cached });
+    oddsHistory.rebuild(endId, { refresh });
+    const job = oddsHistory.getJob();
+    const data = oddsHistory.range({ startId, endId, offset, limit });
+    const building = job?.status === JOB_STATUS.RUNNING;
+    return res.status(building ? 202 : 200).json({ ok: true, building, data, job });
+  } catch (e) {
+    return res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/odds/history/job", (_req, res) => {
+  res.json({ ok: true, job: oddsHistory.getJob() });
+});
+
+function loadModelHistory() {
+  return fs.existsSync(modelHistoryPath) ? JSON.parse(fs.readFileSync(modelHistoryPath, "utf-8")) : {};
+}
+
+// Uses the parameters saved by the last fit (see /api/admin/odds/backtest/fit), or the defaults.
+function loadModelOdds() {
+  return computeModelOdds(loadModelHistory(), loadModelParams(modelParamsPath));
+}
+
+function fixedOddsPricing() {
+  return { marginBps: FIXED_ODDS_MARGIN_BPS, maxOdds: FIXED_ODDS_MAX_ODDS };
+}
+
+// The model is keyed by player; look the pick up by uid first, then by display name.
+function quoteFixedOdds(pickedUid, pickedName) {
+  const { probs } = loadModelOdds();
+  const probability = probs[pickedUid] ?? probs[pickedName];
+  return priceFixedOdds(probability, fixedOddsPricing());
+}
+
+// `position` (1, 2, 3 or top3) turns the win probabilities into finishing-position ones.
+app.get("/api/odds/model", (req, res) => {
+  try {
+    const position = req.query.position === undefined ? null : String(req.query.position).toLowerCase();
+    if (position !== null && !MODEL_POSITIONS.includes(position)) {
+      return res.status(400).json({ error: `position must be one of ${MODEL_POSITIONS.join(", ")}` });
     }
+    const params = loadModelParams(modelParamsPath);
+    const history = loadModelHistory();
+    const names = modelPlayerNames(history);
+    const { probs, odds, strength } = computeModelOdds(history, params);
+    if (position === null) return res.json({ ok: true, params, names, probs, odds, strength });
+    return res.json({ ok: true, params, position, names, ...positionOdds(probs, position), strength });
+  } catch (e) {
+    return res.status(500).json({ error: String(e) });
+  }
+});
 
-    const payload = await buildOddsHistory(endId);
-    return res.json({ ok: true, data: payload });
+app.post("/api/admin/odds/model-history/rebuild", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const summary = rebuildModelHistory();
+    await audit(req, "odds.model_history.rebuild", { data: summary });
+    res.json({ ok: true, ...summary });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+let lastModelFit = null;
+let modelFit = null;
+
+function optionalNumber(value) {
+  if (value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+// Replays history for the saved parameters, or for `lambda` / `tau` / `k` from the query.
+app.get("/api/odds/backtest", (req, res) => {
+  try {
+    const params = loadModelParams(modelParamsPath);
+    for (const key of ["lambda", "tau", "k"]) {
+      const value = optionalNumber(req.query[key]);
+      if (Number.isNaN(value) || (key === "tau" && value <= 0)) {
+        return res.status(400).json({ error: `${key} must be a ${key === "tau" ? "positive " : ""}number` });
+      }
+      if (value !== undefined) params[key] = value;
+    }
+    const minTraining = optionalNumber(req.query.minTraining);
+    if (Number.isNaN(minTraining) || minTraining < 0) {
+      return res.status(400).json({ error: "minTraining must be a non-negative number" });
+    }
+    const report = backtestModelOdds(loadModelHistory(), params, { minTraining });
+    return res.json({ ok: true, report, lastFit: lastModelFit });
   } catch (e) {
     return res.status(500).json({ error: String(e) });
   }
 });
 
-app.get("/api/odds/model", (_req, res) => {
+function gridFromBody(body) {
+  const grid = {};
+  for (const key of ["lambda", "tau", "k"]) {
+    const values = body?.grid?.[key];
+    if (values === undefined) continue;
+    if (!Array.isArray(values) || values.length === 0 || !values.every((v) => Number.isFinite(v))) {
+      return { error: `grid.${key} must be a non-empty array of numbers` };
+    }
+    if (key === "tau" && values.some((v) => v <= 0)) return { error: "grid.tau values must be positive" };
+    grid[key] = values;
+  }
+  return { grid };
+}
+
+// Grid-searches the model parameters and saves the best set for /api/odds/model.
+// Concurrent calls share one run.
+app.post("/api/admin/odds/backtest/fit", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const { grid, error } = gridFromBody(req.body);
+    if (error) return res.status(400).json({ error });
+    if (!modelFit) {
+      modelFit = fitModelParams(loadModelHistory(), { grid }).finally(() => {
+        modelFit = null;
+      });
+    }
+    const fit = await modelFit;
+    if (!fit.best) return res.status(409).json({ error: "not enough history to backtest", fit });
+    const saved = saveModelParams(modelParamsPath, fit);
+    lastModelFit = { ...fit, saved };
+    await audit(req, "odds.fit", { data: saved });
+    res.json({ ok: true, ...lastModelFit });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/odds/fixed", (_req, res) => {
   try {
-    const history = fs.existsSync(modelHistoryPath)
-      ? JSON.parse(fs.readFileSync(modelHistoryPath, "utf-8"))
-      : {};
-    const { probs, odds, strength } = computeModelOdds(history, {
-      lambda: 0.35,
-      tau: 0.9,
-      k: 3,
-      usePoints: true,
+    const { probs } = loadModelOdds();
+    const prices = {};
+    for (const [player, probability] of Object.entries(probs)) {
+      const odds = priceFixedOdds(probability, fixedOddsPricing());
+      if (odds) prices[player] = odds;
+    }
+    return res.json({
+      ok: true,
+      positions: [1],
+      ...fixedOddsPricing(),
+      maxPlayerLiability: FIXED_ODDS_MAX_PLAYER_LIABILITY,
+      maxMarketLiability: FIXED_ODDS_MAX_MARKET_LIABILITY,
+      prices,
     });
-    return res.json({ ok: true, probs, odds, strength });
   } catch (e) {
     return res.status(500).json({ error: String(e) });
   }
@@ -302,101 +772,333 @@ function resolveAmounts({ amount }) {
   return { wagerAmount: amt };
 }
 
-async function validateBetPayload(body, loginAddress) {
-  const { masterpieceId, position, pickedUid, futureBet } = body || {};
+// The players a bet names: trifecta bets list `picks` in finishing order, head-to-head
+// bets a `pickedUid` to beat `opponentUid`, everything else a single `pickedUid`.
+function resolveSelections(body, marketType) {
+  const { pickedUid, opponentUid, picks } = body || {};
+  const isUid = (uid) => Boolean(uid) && typeof uid === "string";
+
+  if (marketType === MARKET_TYPES.TRIFECTA) {
+    if (!Array.isArray(picks) || picks.length !== 3 || !picks.every(isUid)) {
+      return { error: "picks must list the 1st, 2nd and 3rd place uids" };
+    }
+    if (new Set(picks).size !== 3) return { error: "trifecta picks must be three different players" };
+    return { uids: picks };
+  }
+
+  if (!isUid(pickedUid)) return { error: "pickedUid required" };
+  if (marketType === MARKET_TYPES.H2H) {
+    if (!isUid(opponentUid)) return { error: "opponentUid required" };
+    if (opponentUid === pickedUid) return { error: "opponentUid must be a different player" };
+    return { uids: [pickedUid, opponentUid] };
+  }
+  return { uids: [pickedUid] };
+}
+
+// The market a bet payload names and what it stakes. Whether that market takes the
+// bet right now is left to `checkBetPayload`.
+function parseBetPayload(body, loginAddress) {
+  const { masterpieceId, position, futureBet } = body || {};
   if (!loginAddress) return { error: "loginAddress required" };
 
+  const marketType = body?.marketType || MARKET_TYPES.POSITION;
+  if (!Object.values(MARKET_TYPES).includes(marketType)) {
+    return { error: `marketType must be one of ${Object.values(MARKET_TYPES).join(", ")}` };
+  }
+
+  const mode = body?.mode || BET_MODES.POOL;
+  if (!Object.values(BET_MODES).includes(mode)) return { error: "mode must be pool or fixed" };
+  if (mode === BET_MODES.FIXED && marketType !== MARKET_TYPES.POSITION) {
+    return { error: "fixed odds are only offered on position markets" };
+  }
+
   const mpId = Number(masterpieceId);
   if (!Number.isInteger(mpId)) return { error: "masterpieceId must be integer" };
 
-  const pos = Number(position);
-  if (![1, 2, 3].includes(pos)) return { error: "position must be 1, 2, or 3" };
+  let pos = SPECIAL_MARKET_POSITION;
+  if (marketType === MARKET_TYPES.POSITION) {
+    pos = Number(position);
+    if (![1, 2, 3].includes(pos)) return { error: "position must be 1, 2, or 3" };
+  }
 
-  if (!pickedUid || typeof pickedUid !== "string") return { error: "pickedUid required" };
+  const selections = resolveSelections(body, marketType);
+  if (selections.error) return { error: selections.error };
 
   const amountCheck = resolveAmounts(body);
   if (amountCheck.error) return { error: amountCheck.error };
-  if (BET_MAX_AMOUNT !== null && amountCheck.wagerAmount > BET_MAX_AMOUNT) {
+
+  const selection = {
+    marketType,
+    mode,
+    pickedUid: marketType === MARKET_TYPES.TRIFECTA ? null : selections.uids[0],
+    ...(marketType === MARKET_TYPES.TRIFECTA ? { picks: selections.uids } : {}),
+    ...(marketType === MARKET_TYPES.H2H ? { opponentUid: selections.uids[1] } : {}),
+  };
+
+  return {
+    user: loginAddress,
+    masterpieceId: mpId,
+    position: pos,
+    betId: buildBetId(mpId, pos, betMarket(selection)),
+    futureBet: Boolean(futureBet),
+    uids: selections.uids,
+    ...selection,
+    ...amountCheck,
+  };
+}
+
+// Whether the market takes a parsed bet now: the stake limit, betting still open, the
+// players on the leaderboard (or the futures list), and for fixed odds the price the
+// client accepted (or the locked `quote`) and the liability limits. Returns the
+// display names and odds.
+async function checkBetPayload(parsed, body, { quote = null } = {}) {
+  const { masterpieceId: mpId, position: pos, marketType, mode, pickedUid, uids, futureBet, wagerAmount } = parsed;
+  if (BET_MAX_AMOUNT !== null && wagerAmount > BET_MAX_AMOUNT) {
     return { error: `bet exceeds max limit of ${BET_MAX_AMOUNT}` };
   }
 
-  let pickedName = pickedUid;
-  let isClosed = false;
-
+  const names = Object.fromEntries(uids.map((uid) => [uid, uid]));
+  let mp = null;
   try {
     const mpJson = await fetchMasterpiece(mpId);
-    const mp = mpJson?.data?.masterpiece;
-    if (mp?.collectedPoints >= mp?.requiredPoints) isClosed = true;
+    mp = mpJson?.data?.masterpiece || null;
+  } catch (e) {
+    if (!futureBet) return { error: "masterpiece lookup failed" };
+  }
+
+  const closedError = markets.checkBetting(mpId, mp);
+  if (closedError) return { error: closedError };
+
+  if (futureBet) {
+    // Futures can only pick from the players listed when the market was created.
+    const futures = markets.get(mpId);
+    if (!futures?.futures) return { error: "no futures market for this masterpiece" };
+    if (futures.wentLiveAt || hasStarted(mp)) return { error: "masterpiece has started; place a regular bet" };
+    for (const uid of uids) {
+      const player = (futures.players || []).find((p) => p.uid === uid);
+      if (!player) return { error: `${uid} is not in the futures player list` };
+      names[uid] = player.name || uid;
+    }
+  } else {
     const leaderboard = mp?.leaderboard || [];
+    for (const uid of uids) {
+      const row = leaderboard.find((r) => r?.profile?.uid === uid);
+      if (!row) return { error: `${uid} not found in current leaderboard` };
+      names[uid] = row?.profile?.displayName || uid;
+    }
+  }
+
+  let odds;
+  if (mode === BET_MODES.FIXED) {
+    // The model prices the winner only.
+    if (pos !== 1) return { error: "fixed odds are only offered on 1st place" };
+    odds = quote?.odds ?? quoteFixedOdds(pickedUid, names[pickedUid]);
+    if (!odds) return { error: "no fixed-odds price for this player" };
 
-    if (!futureBet) {
-      const pickedRow = leaderboard.find((r) => r?.profile?.uid === pickedUid);
-      if (!pickedRow) return { error: "pickedUid not found in current leaderboard" };
-      pickedName = pickedRow?.profile?.displayName || pickedUid;
+    // Without a locked quote, clients send the price they were shown; the bet is
+    // refused if it has shortened.
+    const acceptedOdds = Number(body?.odds);
+    if (!quote && Number.isFinite(acceptedOdds) && odds < acceptedOdds) {
+      return { error: `price changed to ${odds.toFixed(2)}x`, priceChanged: true, odds };
+    }
+
+    const exposure = wagerAmount * (odds - 1);
+    const liability = fixedOddsLiability({ masterpieceId: mpId, position: pos, bets: store.bets, pickedUid });
+    if (liability.player + exposure > FIXED_ODDS_MAX_PLAYER_LIABILITY) {
+      return { error: "fixed-odds limit reached for this player" };
+    }
+    if (liability.market + exposure > FIXED_ODDS_MAX_MARKET_LIABILITY) {
+      return { error: "fixed-odds limit reached for this market" };
     }
-  } catch (e) {
-    if (!futureBet) return { error: "masterpiece lookup failed" };
   }
 
-  if (isClosed) return { error: "betting is closed for this masterpiece" };
+  return {
+    pickedName:
+      marketType === MARKET_TYPES.TRIFECTA ? uids.map((uid) => names[uid]).join(" / ") : names[pickedUid],
+    odds,
+    ...(marketType === MARKET_TYPES.H2H ? { opponentName: names[parsed.opponentUid] } : {}),
+  };
+}
 
+async function validateBetPayload(body, loginAddress) {
+  const parsed = parseBetPayload(body, loginAddress);
+  if (parsed.error) return parsed;
+  const checked = await checkBetPayload(parsed, body);
+  if (checked.error) return checked;
+  return { ...parsed, ...checked };
+}
+
+function marketPool(masterpieceId, position) {
   return {
-    user: loginAddress,
-    masterpieceId: mpId,
-    position: pos,
-    betId: buildBetId(mpId, pos),
-    pickedUid,
-    pickedName,
-    futureBet: Boolean(futureBet),
-    ...amountCheck,
+    ...computeMarketPool({
+      masterpieceId,
+      position,
+      bets: store.bets,
+      carryover: store.carryover[String(position)],
+    }),
+    updatedAt: new Date().toISOString(),
   };
 }
 
-app.post("/api/bets/preview", async (req, res) => {
+// Fixed-odds prices handed out by /api/bets/preview. Each is held for
+// FIXED_ODDS_QUOTE_TTL_MS: a bet whose stake is mined in that window gets the quoted
+// price even if the model has moved since.
+const fixedOddsQuotes = new Map();
+
+function issueFixedOddsQuote(validated) {
+  const now = Date.now();
+  for (const [quoteId, quote] of fixedOddsQuotes) {
+    if (quote.expiresAt <= now) fixedOddsQuotes.delete(quoteId);
+  }
+  const quote = {
+    id: newId(),
+    user: validated.user,
+    betId: validated.betId,
+    pickedUid: validated.pickedUid,
+    odds: validated.odds,
+    expiresAt: now + FIXED_ODDS_QUOTE_TTL_MS,
+  };
+  fixedOddsQuotes.set(quote.id, quote);
+  return quote;
+}
+
+// The quote a bet was placed on, if it was issued for this bet and the stake's
+// block is no later than its expiry.
+async function lockedFixedOddsQuote(quoteId, parsed, blockNumber) {
+  const quote = fixedOddsQuotes.get(String(quoteId || ""));
+  if (!quote || quote.user !== parsed.user || quote.betId !== parsed.betId || quote.pickedUid !== parsed.pickedUid) {
+    return null;
+  }
+  const block = await roninProvider.getBlock(blockNumber);
+  return block && block.timestamp * 1000 <= quote.expiresAt ? quote : null;
+}
+
+// `settleMarket` runs once per market, so a stake placed after it has been sent can't be
+// paid out or refunded through the journal.
+async function marketSettled(parsed) {
+  const record = store.settlements[settlementKey(parsed.masterpieceId, parsed.position, betMarket(parsed))];
+  if (record?.status === SETTLEMENT_STATUS.SUBMITTED) return true;
+  return masterpiecePoolRead ? Boolean(await masterpiecePoolRead.settled(parsed.betId)) : false;
+}
+
+app.post("/api/bets/preview", requireAuth, async (req, res) => {
   try {
-    const loginAddress = normalizeWallet(req.body?.walletAddress);
+    const loginAddress = req.auth.address;
     const validated = await validateBetPayload(req.body, loginAddress);
-    if (validated.error) return res.status(400).json({ error: validated.error });
+    if (validated.error) {
+      return res.status(validated.priceChanged ? 409 : 400).json({ error: validated.error, odds: validated.odds });
+    }
 
-    res.json({ ok: true, pickedName: validated.pickedName, betId: validated.betId });
+    const quote = validated.mode === BET_MODES.FIXED ? issueFixedOddsQuote(validated) : null;
+    res.json({
+      ok: true,
+      pickedName: validated.pickedName,
+      betId: validated.betId,
+      position: validated.position,
+      marketType: validated.marketType,
+      mode: validated.mode,
+      odds: validated.odds ?? null,
+      quoteId: quote?.id ?? null,
+      quoteExpiresAt: quote ? new Date(quote.expiresAt).toISOString() : null,
+    });
   } catch (e) {
     res.status(500).json({ error: String(e) });
   }
 });
 
-app.post("/api/bets", async (req, res) => {
+// Guards against the same txHash being submitted twice while the first request
+// is still waiting for confirmations.
+const pendingBetTxHashes = new Set();
+
+function isBetTxHashUsed(txHash) {
+  return pendingBetTxHashes.has(txHash) || store.bets.some((b) => (b.txHash || "").toLowerCase() === txHash);
+}
+
+app.post("/api/bets", requireAuth, async (req, res) => {
+  const txHash = normalizeTxHash(req.body?.txHash);
+  if (!txHash) return res.status(400).json({ error: "txHash required" });
+  if (isBetTxHashUsed(txHash)) return res.status(409).json({ error: "txHash already used for a bet" });
+
+  pendingBetTxHashes.add(txHash);
   try {
-    const { txHash } = req.body || {};
-    let validated = null;
-    const loginAddress = normalizeWallet(req.body?.walletAddress);
-    const userId = null;
-    if (!loginAddress) return res.status(400).json({ error: "invalid login address" });
-    validated = await validateBetPayload(req.body, loginAddress);
-    if (validated.error) return res.status(400).json({ error: validated.error });
+    const loginAddress = req.auth.address;
+    const userId = req.auth.userId;
+    const parsed = parseBetPayload(req.body, loginAddress);
+    if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+    // A BetPlaced stake other than the whole-DYNW amount posted is refused and never
+    // recorded; settlement refunds it to the wallet from the pool's own stake records.
+    const verification = await verifyBetTransaction({
+      provider: roninProvider,
+      poolAddress: MASTERPIECE_POOL_ADDRESS,
+      txHash,
+      betId: parsed.betId,
+      user: loginAddress,
+      amountWei: parseUnits(String(parsed.wagerAmount), DYNW_DECIMALS),
+      confirmations: BET_CONFIRMATIONS,
+      timeoutMs: BET_CONFIRMATION_TIMEOUT_MS,
+    });
+    if (verification.error) {
+      return res.status(verification.pending ? 409 : 400).json({ error: verification.error });
+    }
+    if (await marketSettled(parsed)) {
+      console.error(`Bet ${txHash} staked in market ${parsed.betId} after it settled`);
+      return res.status(409).json({ error: "market has already settled; the bet was not recorded" });
+    }
+    const amount = parsed.wagerAmount;
 
+    // Once the stake is on-chain the bet is recorded either way: one the market
+    // refuses now is voided and its stake refunded when the market settles.
+    const quote =
+      parsed.mode === BET_MODES.FIXED && req.body?.quoteId
+        ? await lockedFixedOddsQuote(req.body.quoteId, parsed, verification.blockNumber)
+        : null;
+    const checked = await checkBetPayload(parsed, req.body, { quote });
+    if (quote) fixedOddsQuotes.delete(quote.id);
     const bet = {
       id: newId(),
-      betId: validated.betId,
-      user: validated.user,
+      betId: parsed.betId,
+      user: parsed.user,
       userId,
       loginAddress,
-      masterpieceId: validated.masterpieceId,
-      position: validated.position,
-      pickedUid: validated.pickedUid,
-      pickedName: validated.pickedName,
-      amount: validated.wagerAmount,
-      wagerAmount: validated.wagerAmount,
-      txHash: txHash || null,
+      masterpieceId: parsed.masterpieceId,
+      position: parsed.position,
+      pickedUid: parsed.pickedUid,
+      pickedName: checked.pickedName ?? (parsed.picks ? parsed.picks.join(" / ") : parsed.pickedUid),
+      amount,
+      wagerAmount: amount,
+      txHash,
+      blockNumber: verification.blockNumber,
       createdAt: new Date().toISOString(),
-      futureBet: validated.futureBet,
+      futureBet: parsed.futureBet,
+      mode: parsed.mode,
+      ...(checked.odds && !checked.error ? { odds: checked.odds } : {}),
+      marketType: parsed.marketType,
+      ...(parsed.picks ? { picks: parsed.picks } : {}),
+      ...(parsed.opponentUid
+        ? { opponentUid: parsed.opponentUid, opponentName: checked.opponentName ?? parsed.opponentUid }
+        : {}),
     };
 
     store.bets.push(bet);
+    ledger.recordStake(bet);
+    if (checked.error) {
+      voidBet(bet, checked.error);
+      persist();
+      return res.status(409).json({
+        error: `${checked.error}; the stake is refunded when the market settles`,
+        odds: checked.odds,
+        bet,
+      });
+    }
     persist();
+    if (betMarket(bet) === BET_MODES.POOL) io.emit("market:pool", marketPool(bet.masterpieceId, bet.position));
 
     res.json({ ok: true, bet });
   } catch (e) {
     res.status(500).json({ error: String(e) });
+  } finally {
+    pendingBetTxHashes.delete(txHash);
   }
 });
 
@@ -414,6 +1116,127 @@ app.get("/api/bets", (req, res) => {
   res.json({ ok: true, bets: out });
 });
 
+app.get("/api/players/:uid", (req, res) => {
+  try {
+    const uid = String(req.params.uid || "").trim();
+    if (!uid) return res.status(400).json({ error: "uid required" });
+    const profile = playerProfile(uid, {
+      snapshots: oddsHistory.snapshots(),
+      history: loadModelHistory(),
+      params: loadModelParams(modelParamsPath),
+      bets: store.bets,
+      outcomes: betOutcomes({ bets: store.bets, results: store.results, settlements: store.settlements }),
+    });
+    if (!profile) return res.status(404).json({ error: "player not found" });
+    return res.json({ ok: true, player: profile });
+  } catch (e) {
+    return res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/futures", (_req, res) => {
+  res.json({ ok: true, futures: markets.listFutures() });
+});
+
+app.get("/api/wallet/:address/activity", (req, res) => {
+  const address = normalizeWallet(req.params.address);
+  if (!address) return res.status(400).json({ error: "invalid address" });
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+  res.json({ ok: true, address, ...eventIndexer.walletActivity(address, { limit, offset }) });
+});
+
+// Every bet of a wallet with how it settled; sorted, filtered and paged here.
+app.get("/api/wallet/:address/bets", (req, res) => {
+  const address = normalizeWallet(req.params.address);
+  if (!address) return res.status(400).json({ error: "invalid address" });
+  const status = req.query.status ? String(req.query.status) : null;
+  if (status && !Object.values(BET_OUTCOME).includes(status)) {
+    return res.status(400).json({ error: `status must be one of ${Object.values(BET_OUTCOME).join(", ")}` });
+  }
+  const marketType = req.query.marketType ? String(req.query.marketType) : null;
+  if (marketType && !Object.values(MARKET_TYPES).includes(marketType)) {
+    return res.status(400).json({ error: `marketType must be one of ${Object.values(MARKET_TYPES).join(", ")}` });
+  }
+  const sort = req.query.sort ? String(req.query.sort) : "createdAt";
+  if (!BET_SORT_FIELDS.includes(sort)) {
+    return res.status(400).json({ error: `sort must be one of ${BET_SORT_FIELDS.join(", ")}` });
+  }
+  const masterpieceId = req.query.masterpieceId ? Number(req.query.masterpieceId) : null;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+  try {
+    const page = walletBets(
+      address,
+      { bets: store.bets, results: store.results, settlements: store.settlements },
+      {
+        status,
+        marketType,
+        masterpieceId: Number.isInteger(masterpieceId) ? masterpieceId : null,
+        sort,
+        order: req.query.order === "asc" ? "asc" : "desc",
+        limit,
+        offset,
+      }
+    );
+    res.json({ ok: true, address, limit, offset, ...page });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/markets/:betId/onchain", (req, res) => {
+  const betId = String(req.params.betId || "").toLowerCase();
+  if (!/^0x[0-9a-f]{64}$/.test(betId)) return res.status(400).json({ error: "invalid betId" });
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+  const { total, events } = eventIndexer.betEvents(betId, { limit, offset });
+  const all = eventIndexer.betEvents(betId, { limit: Number.MAX_SAFE_INTEGER }).events;
+  const staked = all
+    .filter((event) => event.event === "BetPlaced")
+    .reduce((sum, event) => sum + BigInt(event.args.amount || 0), 0n);
+  const settled = all.find((event) => event.event === "MarketSettled" || event.event === "BetSettled") || null;
+  res.json({
+    ok: true,
+    betId,
+    stakedWei: staked.toString(),
+    staked: Number(formatUnits(staked, DYNW_DECIMALS)),
+    settledAt: settled ? { blockNumber: settled.blockNumber, txHash: settled.txHash } : null,
+    total,
+    events,
+  });
+});
+
+app.get("/api/admin/graphql", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({ ok: true, ...craftWorld.getStats() });
+});
+
+app.get("/api/admin/indexer", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({ ok: true, ...eventIndexer.getStatus() });
+});
+
+app.get("/api/markets/:masterpieceId", async (req, res) => {
+  const mpId = Number(req.params.masterpieceId);
+  if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+  let mp = null;
+  try {
+    const mpJson = await fetchMasterpiece(mpId);
+    mp = mpJson?.data?.masterpiece || null;
+    if (mp) markets.observe(mpId, mp);
+  } catch (e) {
+    // Fall back to the last snapshot the watcher recorded.
+  }
+  res.json({ ok: true, market: markets.view(mpId, mp) });
+});
+
+app.get("/api/markets/:masterpieceId/:position/pool", (req, res) => {
+  const mpId = Number(req.params.masterpieceId);
+  const position = Number(req.params.position);
+  if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+  if (![1, 2, 3].includes(position)) return res.status(400).json({ error: "position must be 1, 2, or 3" });
+  res.json({ ok: true, pool: marketPool(mpId, position) });
+});
+
 app.get("/api/results/:masterpieceId", (req, res) => {
   const mpId = Number(req.params.masterpieceId);
   if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
@@ -421,105 +1244,397 @@ app.get("/api/results/:masterpieceId", (req, res) => {
   return res.json({ ok: true, result });
 });
 
-app.post("/api/settle/:masterpieceId", async (req, res) => {
+app.post("/api/settle/:masterpieceId", requireRole(ROLES.OPERATOR), async (req, res) => {
   try {
     const mpId = Number(req.params.masterpieceId);
     if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
-    if (!masterpiecePoolContract) {
-      return res.status(500).json({ error: "MASTERPIECE_POOL_ADDRESS or OPERATOR_PRIVATE_KEY not configured" });
-    }
 
-    const mpJson = await fetchMasterpiece(mpId);
-    const mp = mpJson?.data?.masterpiece;
-    if (!mp?.leaderboard) return res.status(400).json({ error: "no leaderboard" });
+    await audit(req, "market.settle", { targetType: "masterpiece", targetId: mpId });
 
-    const winners = {
-      1: mp.leaderboard.find((r) => r.position === 1),
-      2: mp.leaderboard.find((r) => r.position === 2),
-      3: mp.leaderboard.find((r) => r.position === 3),
-    };
+    const settlement = await settleMasterpiece(mpId);
+    if (settlement.error) {
+      const status = settlement.error === "no leaderboard" ? 400 : 500;
+      return res.status(status).json({ error: settlement.error });
+    }
 
-    const results = [1, 2, 3].map((pos) => {
-      const row = winners[pos];
-      return settleMarket({
-        masterpieceId: mpId,
-        position: pos,
-        bets: store.bets,
-        winnerUid: row?.profile?.uid,
-        winnerName: row?.profile?.displayName,
-      });
+    if (settlement.status === "confirmed" && !markets.isFinal(mpId)) {
+      const now = new Date().toISOString();
+      markets.update(
+        mpId,
+        markets.get(mpId)?.voidReason
+          ? { state: MARKET_STATE.VOIDED, voidedAt: now, lastError: null }
+          : { state: MARKET_STATE.SETTLED, settledAt: now, lastError: null }
+      );
+    }
+
+    const result = store.results[mpId];
+    res.json({
+      ok: true,
+      masterpieceId: mpId,
+      masterpieceName: result?.masterpieceName || null,
+      tokenAddress: DYNW_TOKEN_ADDRESS,
+      carryover: store.carryover,
+      house: store.house,
+      results: result?.results || [],
+      settlements: settlement.positions
+        .filter((record) => record.txHash)
+        .map((record) => ({
+          betId: record.betId,
+          market: record.market,
+          txHash: record.txHash,
+          status: record.status,
+        })),
+      settlementStatus: settlement.status,
+      positions: settlement.positions,
     });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
 
-    // House keeps half if no-one wins; other half carryover
-    for (const r of results) {
-      if (r.status === "NO_WINNERS") {
-        store.house.total += r.houseTake;
-        store.house.byMasterpiece[mpId] = (store.house.byMasterpiece[mpId] || 0) + r.houseTake;
-        store.carryover[String(r.position)] =
-          (store.carryover[String(r.position)] || 0) + r.carryover;
-      }
+app.get("/api/settlements/:masterpieceId", (req, res) => {
+  const mpId = Number(req.params.masterpieceId);
+  if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+  res.json({ ok: true, ...getSettlementStatus(mpId) });
+});
+
+app.get("/api/crash/state", (_req, res) => {
+  res.json({ ok: true, state: crashEngine.getPublicState(), history: crashEngine.getHistory() });
+});
+
+app.post("/api/crash/bet", requireAuth, async (req, res) => {
+  try {
+    if (!crashVaultContract) {
+      return res.status(500).json({ error: "CRASH_VAULT_ADDRESS or OPERATOR_PRIVATE_KEY not configured" });
+    }
+    const address = req.auth.address;
+    const requested = Number(req.body?.amount);
+    if (!Number.isFinite(requested) || requested < CRASH_MIN_BET || requested > CRASH_MAX_BET) {
+      return res.status(400).json({ error: `amount must be between ${CRASH_MIN_BET} and ${CRASH_MAX_BET}` });
+    }
+    if (!crashEngine.canBet(address)) {
+      return res.status(400).json({ error: "betting is closed or bet already placed this round" });
+    }
+
+    const roundNumber = crashEngine.roundNumber;
+    const stakeWei = BigInt(await crashVaultContract.getStake(crashRoundBetId(roundNumber), address));
+    if (stakeWei < parseUnits(String(requested), DYNW_DECIMALS)) {
+      return res.status(400).json({ error: "no matching stake locked in the Crash Vault for this round" });
+    }
+    if (crashEngine.roundNumber !== roundNumber) {
+      return res.status(400).json({ error: "round ended before the bet was registered" });
+    }
+
+    // Register what is actually locked on-chain so cashouts pay against the real stake.
+    const amount = Number(formatUnits(stakeWei, DYNW_DECIMALS));
+    if (amount > CRASH_MAX_BET) {
+      return res.status(400).json({ error: `stake exceeds max bet of ${CRASH_MAX_BET}` });
+    }
+    let bet;
+    try {
+      bet = crashEngine.registerBet({ address, amount, amountWei: stakeWei });
+    } catch (e) {
+      return res.status(400).json({ error: e.message });
     }
 
-    store.results[mpId] = {
-      settledAt: new Date().toISOString(),
-      masterpieceName: mp.name,
-      winners: {
-        1: winners[1]?.profile?.displayName || null,
-        2: winners[2]?.profile?.displayName || null,
-        3: winners[3]?.profile?.displayName || null,
+    res.json({
+      ok: true,
+      roundId: crashEngine.getPublicState().roundId,
+      bet: {
+        address: bet.address,
+        amount: bet.amount,
+        amountWei: bet.amountWei.toString(),
+        placedAt: bet.placedAt,
       },
-      results,
-    };
+    });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
 
-    persist();
+app.post("/api/crash/cashout", requireAuth, async (req, res) => {
+  try {
+    if (!crashVaultContract) {
+      return res.status(500).json({ error: "CRASH_VAULT_ADDRESS or OPERATOR_PRIVATE_KEY not configured" });
+    }
+    const address = req.auth.address;
+    const bet = crashEngine.getBet(address);
+    if (!bet) return res.status(400).json({ error: "No active bet" });
 
-    const settlementReceipts = [];
-    for (const result of results) {
-      if (result.pot === 0) {
-        continue;
-      }
-      const betId = buildBetId(result.masterpieceId, result.position);
-      const payouts = result.payouts || {};
-      const winners = [];
-      const payoutAmounts = [];
-      for (const [user, payout] of Object.entries(payouts)) {
-        const address = normalizeWallet(user);
-        if (!address) continue;
-        const amount = parseUnits(String(payout), DYNW_DECIMALS);
-        if (amount <= 0n) continue;
-        winners.push(address);
-        payoutAmounts.push(amount);
+    const roundNumber = crashEngine.roundNumber;
+    const multiplier = crashEngine.getPublicState().currentMultiplier;
+    const multiplierBps = BigInt(Math.floor(multiplier * 10_000));
+    const payoutWei = (bet.amountWei * multiplierBps) / 10_000n;
+    const payout = Number(formatUnits(payoutWei, DYNW_DECIMALS));
+
+    const round = crashEngine.round;
+    try {
+      crashEngine.registerCashout({ address, multiplier, payout, payoutWei });
+    } catch (e) {
+      return res.status(400).json({ error: e.message });
+    }
+
+    // The bet is marked paid first so the multiplier is locked in while the transaction is
+    // pending. Undo that when the payout was never sent or reverted; a transaction that was
+    // sent but whose receipt is unknown may still land, so it stays marked.
+    let tx;
+    let receipt;
+    try {
+      tx = await crashVaultContract.cashout(crashRoundBetId(roundNumber), address, payoutWei);
+      receipt = await tx.wait();
+    } catch (e) {
+      if (!tx || e?.code === "CALL_EXCEPTION") await crashEngine.revertCashout(round, address);
+      throw e;
+    }
+    if (receipt?.status !== 1) {
+      await crashEngine.revertCashout(round, address);
+      return res.status(502).json({ error: "Cashout transaction reverted", txHash: tx.hash });
+    }
+    res.json({
+      ok: true,
+      multiplier,
+      payout,
+      payoutWei: payoutWei.toString(),
+      txHash: tx.hash,
+      status: receipt.status,
+    });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/refunds", (req, res) => {
+  const mpId = req.query.masterpieceId ? Number(req.query.masterpieceId) : null;
+  const walletAddress = req.query.walletAddress ? normalizeWallet(req.query.walletAddress) : null;
+
+  let out = Object.values(store.refunds || {});
+  if (Number.isInteger(mpId)) out = out.filter((r) => r.masterpieceId === mpId);
+  if (walletAddress) out = out.filter((r) => normalizeWallet(r.user) === walletAddress);
+
+  res.json({ ok: true, refunds: out.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt))) });
+});
+
+app.get("/api/admin/watcher", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({ ok: true, ...marketWatcher.getStatus() });
+});
+
+app.get("/api/admin/projections", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({ ok: true, ...projections.getStatus() });
+});
+
+app.get("/api/ledger/:walletAddress", (req, res) => {
+  const address = normalizeWallet(req.params.walletAddress);
+  if (!address) return res.status(400).json({ error: "invalid walletAddress" });
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+  res.json({ ok: true, ...ledger.walletSummary(address, { limit, offset }) });
+});
+
+app.get("/api/admin/ledger", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({
+    ok: true,
+    house: ledger.listBalances(HOUSE_ACCOUNT),
+    carryover: ledger.listBalances("carryover:"),
+    pots: ledger.listBalances("pot:"),
+    wallets: ledger.listBalances("wallet:"),
+  });
+});
+
+app.get("/api/admin/reconciliation", requireRole(ROLES.OPERATOR), (_req, res) => {
+  res.json({ ok: true, ...reconciler.getReport() });
+});
+
+app.post("/api/admin/reconciliation/run", requireRole(ROLES.OPERATOR), async (req, res) => {
+  try {
+    await audit(req, "ledger.reconcile");
+    const report = await reconciler.run();
+    if (report.error) return res.status(400).json(report);
+    res.json({ ok: true, report });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// Players recently seen on leaderboards, to pre-fill a futures market's player list.
+app.get("/api/admin/futures/players", requireRole(ROLES.ADMIN), (_req, res) => {
+  const history = oddsHistory.all();
+  if (!history) return res.status(404).json({ error: "no odds history yet; load /api/odds/history first" });
+  res.json({ ok: true, players: recentParticipants(history, { recent: FUTURES_RECENT_MASTERPIECES }) });
+});
+
+app.post("/api/admin/futures", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const mpId = Number(req.body?.masterpieceId);
+    if (!Number.isInteger(mpId) || mpId <= 0) return res.status(400).json({ error: "invalid masterpieceId" });
+
+    const window = parseFuturesWindow(req.body || {});
+    if (window.error) return res.status(400).json({ error: window.error });
+
+    let players = recentParticipants(oddsHistory.all(), { recent: FUTURES_RECENT_MASTERPIECES });
+    if (Array.isArray(req.body?.players)) {
+      const known = new Map(players.map((p) => [p.uid, p]));
+      players = req.body.players
+        .filter((uid) => typeof uid === "string" && uid)
+        .map((uid) => known.get(uid) || { uid, name: uid, appearances: 0 });
+    }
+    if (players.length === 0) return res.status(400).json({ error: "no players for this futures market" });
+
+    try {
+      const mpJson = await fetchMasterpiece(mpId);
+      if (hasStarted(mpJson?.data?.masterpiece)) {
+        return res.status(409).json({ error: "masterpiece has already started" });
       }
-      const houseTakeWei = parseUnits(String(result.houseTake || 0), DYNW_DECIMALS);
-      const carryoverNext = Number(store.carryover[String(result.position)] || 0);
-      const carryoverWei = parseUnits(String(carryoverNext), DYNW_DECIMALS);
-      const tx = await masterpiecePoolContract.settleMarket(
-        betId,
-        result.position,
-        winners,
-        payoutAmounts,
-        houseTakeWei,
-        carryoverWei,
-      );
-      const receipt = await tx.wait();
-      settlementReceipts.push({ betId, txHash: tx.hash, status: receipt?.status ?? null });
+    } catch (e) {
+      // Upcoming masterpieces usually can't be looked up yet.
     }
 
+    const name = req.body?.name ? String(req.body.name).slice(0, 100) : null;
+    await audit(req, "futures.create", {
+      targetType: "masterpiece",
+      targetId: mpId,
+      data: { name, ...window, players: players.length },
+    });
+    const result = markets.createFutures(mpId, {
+      name,
+      players: players.map(({ uid, name: playerName }) => ({ uid, name: playerName })),
+      ...window,
+    });
+    if (result.error) return res.status(409).json({ error: result.error });
+    res.json({ ok: true, market: markets.view(mpId) });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.post("/api/admin/markets/:masterpieceId/suspend", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const mpId = Number(req.params.masterpieceId);
+    if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+    const reason = req.body?.reason ? String(req.body.reason).slice(0, 200) : null;
+
+    await audit(req, "market.suspend", { targetType: "masterpiece", targetId: mpId, data: { reason } });
+    const result = markets.suspend(mpId, reason);
+    if (result.error) return res.status(409).json({ error: result.error });
+    res.json({ ok: true, market: markets.view(mpId) });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// Cancels the masterpiece's market and refunds every bet on it through settleMarket.
+app.post("/api/admin/markets/:masterpieceId/void", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const mpId = Number(req.params.masterpieceId);
+    if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+    const reason = req.body?.reason ? String(req.body.reason).slice(0, 200) : "market voided by an admin";
+
+    await audit(req, "market.void", { targetType: "masterpiece", targetId: mpId, data: { reason } });
+    const result = await marketWatcher.voidMarket(mpId, reason);
+    if (result.error) return res.status(409).json({ error: result.error });
     res.json({
       ok: true,
-      masterpieceId: mpId,
-      masterpieceName: mp.name,
-      tokenAddress: DYNW_TOKEN_ADDRESS,
-      carryover: store.carryover,
-      house: store.house,
-      results,
-      settlements: settlementReceipts,
+      market: markets.view(mpId),
+      settlementStatus: result.status,
+      positions: result.positions,
+      refunds: Object.values(store.refunds).filter((r) => r.masterpieceId === mpId),
     });
   } catch (e) {
     res.status(500).json({ error: String(e) });
   }
 });
 
+app.post("/api/admin/markets/:masterpieceId/reopen", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const mpId = Number(req.params.masterpieceId);
+    if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+
+    let mp = null;
+    try {
+      const mpJson = await fetchMasterpiece(mpId);
+      mp = mpJson?.data?.masterpiece || null;
+    } catch (e) {
+      return res.status(502).json({ error: "masterpiece lookup failed" });
+    }
+
+    await audit(req, "market.reopen", { targetType: "masterpiece", targetId: mpId });
+    const result = markets.reopen(mpId, mp);
+    if (result.error) return res.status(409).json({ error: result.error });
+    res.json({ ok: true, market: markets.view(mpId, mp) });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+// Per-market cutoff override. Null resets a rule to the server default; an omitted rule
+// keeps its current override.
+app.post("/api/admin/markets/:masterpieceId/cutoff", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const mpId = Number(req.params.masterpieceId);
+    if (!Number.isInteger(mpId)) return res.status(400).json({ error: "invalid masterpieceId" });
+
+    const current = markets.get(mpId);
+    const cutoffPercent = req.body?.cutoffPercent === undefined ? current?.cutoffPercent ?? null : req.body.cutoffPercent;
+    const cutoffMinutes = req.body?.cutoffMinutes === undefined ? current?.cutoffMinutes ?? null : req.body.cutoffMinutes;
+    if (cutoffPercent !== null && !(Number(cutoffPercent) > 0 && Number(cutoffPercent) <= 100)) {
+      return res.status(400).json({ error: "cutoffPercent must be between 0 and 100" });
+    }
+    if (cutoffMinutes !== null && !(Number(cutoffMinutes) > 0)) {
+      return res.status(400).json({ error: "cutoffMinutes must be positive" });
+    }
+
+    const rules = {
+      cutoffPercent: cutoffPercent === null ? null : Number(cutoffPercent),
+      cutoffMinutes: cutoffMinutes === null ? null : Number(cutoffMinutes),
+    };
+    await audit(req, "market.cutoff", { targetType: "masterpiece", targetId: mpId, data: rules });
+    const result = markets.setCutoff(mpId, rules);
+    if (result.error) return res.status(409).json({ error: result.error });
+    res.json({ ok: true, market: markets.view(mpId) });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/admin/users", requireRole(ROLES.ADMIN), async (_req, res) => {
+  try {
+    const users = await listPrivilegedUsers();
+    res.json({ ok: true, users });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.post("/api/admin/users/role", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const walletAddress = normalizeWallet(req.body?.walletAddress);
+    const role = req.body?.role;
+    if (!/^0x[0-9a-f]{40}$/.test(walletAddress || "")) {
+      return res.status(400).json({ error: "invalid wallet address" });
+    }
+    if (!isRole(role)) return res.status(400).json({ error: `role must be one of ${Object.values(ROLES).join(", ")}` });
+    if (walletAddress === req.auth.address && role !== ROLES.ADMIN) {
+      return res.status(400).json({ error: "admins cannot remove their own admin role" });
+    }
+
+    await audit(req, "user.role", { targetType: "wallet", targetId: walletAddress, data: { role } });
+    const user = await setUserRole(walletAddress, role);
+    res.json({ ok: true, user });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
+app.get("/api/admin/audit", requireRole(ROLES.ADMIN), async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    const action = req.query.action ? String(req.query.action) : undefined;
+    const entries = await listAuditLog({ limit, action });
+    res.json({ ok: true, entries });
+  } catch (e) {
+    res.status(500).json({ error: String(e) });
+  }
+});
+
 // ---- Serve built frontend when available ----
 const distDir = path.join(__dirname, "..", "dist");
 if (fs.existsSync(distDir)) {
@@ -536,4 +1651,9 @@ if (fs.existsSync(distDir)) {
 
 const port = process.env.PORT || 3000;
 const host = process.env.HOST || "0.0.0.0";
+crashEngine.start();
+marketWatcher.start();
+projections.start();
+reconciler.start();
+eventIndexer.start();
 httpServer.listen(port, host, () => console.log(`Server running on http://${host}:${port}`));
@@ -0,0 +1,218 @@
+// server/indexer.js
+import { decodeContractEvent } from "./lib/contractEvents.js";
+
+const CHECKPOINT_ID = "contract-events";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function errorMessage(e) {
+  return e?.shortMessage || e?.message || String(e);
+}
+
+export function chainEventId(log) {
+  return `${String(log.transactionHash).toLowerCase()}:${log.index ?? log.logIndex}`;
+}
+
+// Follows the VaultLedger, MasterpiecePool and CrashVault events from a checkpointed
+// block and keeps them in `store.chainEvents`. Before each scan the checkpoint block's
+// hash is checked against the chain; if it changed (or the chain is now shorter, as
+// when a local node restarts) the last `reorgDepth` blocks are rolled back: their
+// events are marked `removed` and scanned again. `onEvents` gets each batch of new
+// events.
+export function createEventIndexer({
+  store,
+  persist,
+  provider,
+  contracts,
+  enabled = true,
+  startBlock = null,
+  reorgDepth = 12,
+  batchBlocks = 2_000,
+  pollMs = 5_000,
+  onEvents,
+  logger = console,
+}) {
+  if (!store.chainEvents) store.chainEvents = {};
+  if (!store.indexerCheckpoints) store.indexerCheckpoints = {};
+
+  // Lower-cased contract address → contract name (`vaultLedger`, `masterpiecePool`, `crashVault`).
+  const byAddress = new Map(
+    Object.entries(contracts || {})
+      .filter(([, address]) => address)
+      .map(([contract, address]) => [address.toLowerCase(), contract])
+  );
+  const status = {
+    enabled: enabled && byAddress.size > 0,
+    running: false,
+    contracts: Object.fromEntries([...byAddress].map(([address, contract]) => [contract, address])),
+    headBlock: null,
+    lastPollAt: null,
+    lastError: null,
+    reorgs: 0,
+  };
+  let timer = null;
+  let polling = false;
+
+  function checkpoint() {
+    return store.indexerCheckpoints[CHECKPOINT_ID] || null;
+  }
+
+  function saveCheckpoint(blockNumber, blockHash) {
+    store.indexerCheckpoints[CHECKPOINT_ID] = {
+      id: CHECKPOINT_ID,
+      blockNumber,
+      blockHash,
+      updatedAt: nowIso(),
+    };
+  }
+
+  // Marks every event above `blockNumber` as removed and moves the checkpoint back.
+  async function rollback(blockNumber) {
+    const target = Math.max(blockNumber, startBlock !== null ? startBlock - 1 : -1);
+    let removed = 0;
+    for (const event of Object.values(store.chainEvents)) {
+      if (event.blockNumber > target && !event.removed) {
+        event.removed = true;
+        removed += 1;
+      }
+    }
+    const block = target >= 0 ? await provider.getBlock(target) : null;
+    saveCheckpoint(target, block?.hash || null);
+    status.reorgs += 1;
+    persist();
+    logger?.log?.(`Indexer rolled back to block ${target} (${removed} events removed)`);
+  }
+
+  // Where the next scan starts, after undoing a reorg if the checkpoint is gone.
+  async function nextBlock(head) {
+    const current = checkpoint();
+    if (!current) {
+      const from = startBlock ?? head;
+      saveCheckpoint(from - 1, null);
+      return from;
+    }
+    let stale = current.blockNumber > head;
+    if (!stale && current.blockHash) {
+      const block = await provider.getBlock(current.blockNumber);
+      stale = !block || block.hash !== current.blockHash;
+    }
+    if (stale) await rollback(Math.min(current.blockNumber, head) - reorgDepth);
+    return checkpoint().blockNumber + 1;
+  }
+
+  function toEvent(log) {
+    const contract = byAddress.get(String(log.address).toLowerCase());
+    const decoded = contract ? decodeContractEvent(contract, log) : null;
+    if (!decoded) return null;
+    return {
+      id: chainEventId(log),
+      contract,
+      address: String(log.address).toLowerCase(),
+      event: decoded.event,
+      user: decoded.user,
+      betId: decoded.betId,
+      args: decoded.args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: String(log.transactionHash).toLowerCase(),
+      logIndex: log.index ?? log.logIndex,
+      removed: false,
+      createdAt: nowIso(),
+    };
+  }
+
+  async function scan(fromBlock, toBlock) {
+    const logs = await provider.getLogs({ address: [...byAddress.keys()], fromBlock, toBlock });
+    const events = [];
+    for (const log of logs) {
+      const event = toEvent(log);
+      if (!event) continue;
+      const existing = store.chainEvents[event.id];
+      store.chainEvents[event.id] = { ...event, createdAt: existing?.createdAt || event.createdAt };
+      if (!existing || existing.removed || existing.blockHash !== event.blockHash) events.push(event);
+    }
+    const block = await provider.getBlock(toBlock);
+    saveCheckpoint(toBlock, block?.hash || null);
+    persist();
+    return events;
+  }
+
+  async function poll() {
+    if (!status.enabled || polling) return;
+    polling = true;
+    try {
+      const head = await provider.getBlockNumber();
+      status.headBlock = head;
+      let from = await nextBlock(head);
+      while (from <= head) {
+        const to = Math.min(head, from + batchBlocks - 1);
+        const events = await scan(from, to);
+        if (events.length) {
+          try {
+            onEvents?.(events);
+          } catch (e) {
+            logger?.error?.("Indexer event listener failed", e);
+          }
+        }
+        from = to + 1;
+      }
+      status.lastError = null;
+    } catch (e) {
+      status.lastError = errorMessage(e);
+      logger?.error?.("Indexer poll failed", e);
+    } finally {
+      status.lastPollAt = nowIso();
+      polling = false;
+    }
+  }
+
+  function loop() {
+    timer = setTimeout(async () => {
+      await poll();
+      if (status.running) loop();
+    }, pollMs);
+  }
+
+  function start() {
+    if (!status.enabled || status.running) return;
+    status.running = true;
+    poll().finally(() => {
+      if (status.running) loop();
+    });
+  }
+
+  function stop() {
+    status.running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function newestFirst(a, b) {
+    return b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+  }
+
+  function list(filter, { limit = 100, offset = 0 } = {}) {
+    const events = Object.values(store.chainEvents)
+      .filter((event) => !event.removed && filter(event))
+      .sort(newestFirst);
+    return { total: events.length, events: events.slice(offset, offset + limit) };
+  }
+
+  function walletActivity(address, options) {
+    const user = String(address).toLowerCase();
+    return list((event) => event.user === user, options);
+  }
+
+  function betEvents(betId, options) {
+    const id = String(betId).toLowerCase();
+    return list((event) => event.betId === id, options);
+  }
+
+  function getStatus() {
+    return { ...status, checkpoint: checkpoint(), events: Object.keys(store.chainEvents).length };
+  }
+
+  return { start, stop, poll, walletActivity, betEvents, getStatus };
+}
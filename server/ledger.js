@@ -0,0 +1,274 @@
+// server/ledger.js
+import { formatUnits, parseUnits } from "ethers";
+import { betMarket } from "./betting.js";
+import { SETTLEMENT_STATUS, settlementKey } from "./settlement.js";
+
+export const LEDGER_ENTRY_TYPES = {
+  STAKE: "stake",
+  PAYOUT: "payout",
+  REFUND: "refund",
+  HOUSE_TAKE: "house_take",
+  HOUSE_TOP_UP: "house_top_up",
+  CARRYOVER: "carryover",
+};
+
+export const HOUSE_ACCOUNT = "house";
+
+export function walletAccount(address) {
+  return `wallet:${address}`;
+}
+
+// One pot per on-chain market, named after its settlement journal key.
+export function potAccount(settlementId) {
+  return `pot:${settlementId}`;
+}
+
+export function carryoverAccount(position) {
+  return `carryover:${position}`;
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+// Double-entry ledger of every DYNW movement the bet markets cause. Each entry moves
+// `amountWei` from one account to another, so balances always sum to zero and are
+// only ever derived from the entries. Entry ids are derived from what caused them,
+// which makes posting the same stake or settlement twice a no-op.
+export function createLedger({ store, persist, normalizeWallet, ensureWallet, decimals }) {
+  if (!store.ledgerEntries) store.ledgerEntries = {};
+  const balances = new Map();
+
+  function toWei(amount) {
+    return parseUnits(String(amount || 0), decimals);
+  }
+
+  function apply(entry) {
+    const amount = BigInt(entry.amountWei);
+    balances.set(entry.fromAccount, (balances.get(entry.fromAccount) || 0n) - amount);
+    balances.set(entry.toAccount, (balances.get(entry.toAccount) || 0n) + amount);
+  }
+
+  for (const entry of Object.values(store.ledgerEntries)) apply(entry);
+
+  function balanceOf(account) {
+    return balances.get(account) || 0n;
+  }
+
+  function format(wei) {
+    return Number(formatUnits(wei, decimals));
+  }
+
+  // Keeps the wallet row's balance column in step with the ledger.
+  function syncWallet(account) {
+    if (!account.startsWith("wallet:")) return;
+    const address = account.slice("wallet:".length);
+    const record = store.wallets?.[address] || ensureWallet?.(address);
+    if (record) record.balance = format(balanceOf(account));
+  }
+
+  // Posts entries that aren't in the ledger yet. Returns how many were added.
+  function post(entries) {
+    let posted = 0;
+    const touched = new Set();
+    const createdAt = nowIso();
+    for (const entry of entries) {
+      if (store.ledgerEntries[entry.id] || BigInt(entry.amountWei) <= 0n) continue;
+      const record = {
+        masterpieceId: null,
+        position: null,
+        market: null,
+        betId: null,
+        ...entry,
+        amountWei: BigInt(entry.amountWei).toString(),
+        amount: format(entry.amountWei),
+        createdAt,
+      };
+      store.ledgerEntries[record.id] = record;
+      apply(record);
+      touched.add(record.fromAccount);
+      touched.add(record.toAccount);
+      posted += 1;
+    }
+    if (posted) {
+      for (const account of touched) syncWallet(account);
+      persist();
+    }
+    return posted;
+  }
+
+  function recordStake(bet) {
+    const address = normalizeWallet(bet.user || bet.loginAddress);
+    if (!address || !(bet.amount > 0)) return 0;
+    const market = betMarket(bet);
+    return post([
+      {
+        id: `stake:${bet.id}`,
+        type: LEDGER_ENTRY_TYPES.STAKE,
+        fromAccount: walletAccount(address),
+        toAccount: potAccount(settlementKey(bet.masterpieceId, bet.position, market)),
+        amountWei: toWei(bet.amount),
+        masterpieceId: bet.masterpieceId,
+        position: bet.position,
+        market,
+        betId: bet.betId,
+      },
+    ]);
+  }
+
+  // The house stakes a fixed-odds shortfall into the pot before it settles.
+  function recordTopUp(record, amountWei) {
+    return post([
+      {
+        id: `topup:${record.id}`,
+        type: LEDGER_ENTRY_TYPES.HOUSE_TOP_UP,
+        fromAccount: HOUSE_ACCOUNT,
+        toAccount: potAccount(record.id),
+        amountWei,
+        masterpieceId: record.masterpieceId,
+        position: record.position,
+        market: record.market,
+        betId: record.betId,
+      },
+    ]);
+  }
+
+  // Stakes settlement found in the pool that no bet recorded: each staker's is posted
+  // like any other stake, and refunded through the journal's refund records.
+  function recordUnrecorded(record) {
+    const fields = {
+      masterpieceId: record.masterpieceId,
+      position: record.position,
+      market: record.market,
+      betId: record.betId,
+    };
+    return post(
+      (record.unrecordedStakes || []).map(({ user, amountWei }) => ({
+        id: `stake:unrecorded:${record.id}:${user}`,
+        type: LEDGER_ENTRY_TYPES.STAKE,
+        fromAccount: walletAccount(user),
+        toAccount: potAccount(record.id),
+        amountWei,
+        ...fields,
+      }))
+    );
+  }
+
+  // Posts what a confirmed settlement journal record moved on-chain. Refunded stakes
+  // are paid through the same `settleMarket` call, so they are split back out of the
+  // winners' amounts using the refund records.
+  function recordSettlement(record) {
+    const pot = potAccount(record.id);
+    const fields = {
+      masterpieceId: record.masterpieceId,
+      position: record.position,
+      market: record.market,
+      betId: record.betId,
+    };
+    const entries = [];
+    const refundsByWallet = new Map();
+    for (const refund of Object.values(store.refunds || {})) {
+      if (refund.settlementId !== record.id) continue;
+      const address = normalizeWallet(refund.user);
+      if (!address) continue;
+      const amountWei = refund.amountWei ? BigInt(refund.amountWei) : toWei(refund.amount);
+      refundsByWallet.set(address, (refundsByWallet.get(address) || 0n) + amountWei);
+      entries.push({
+        id: `refund:${refund.id}`,
+        type: LEDGER_ENTRY_TYPES.REFUND,
+        fromAccount: pot,
+        toAccount: walletAccount(address),
+        amountWei,
+        ...fields,
+      });
+    }
+
+    (record.winners || []).forEach((address, index) => {
+      const paid = BigInt(record.payoutsWei?.[index] || 0);
+      const refunded = refundsByWallet.get(address) || 0n;
+      entries.push({
+        id: `payout:${record.id}:${address}`,
+        type: LEDGER_ENTRY_TYPES.PAYOUT,
+        fromAccount: pot,
+        toAccount: walletAccount(address),
+        amountWei: paid > refunded ? paid - refunded : 0n,
+        ...fields,
+      });
+    });
+
+    const topUpWei = BigInt(record.houseTopUpWei || 0);
+    if (topUpWei > 0n && !store.ledgerEntries[`topup:${record.id}`]) {
+      entries.unshift({
+        id: `topup:${record.id}`,
+        type: LEDGER_ENTRY_TYPES.HOUSE_TOP_UP,
+        fromAccount: HOUSE_ACCOUNT,
+        toAccount: pot,
+        amountWei: topUpWei,
+        ...fields,
+      });
+    }
+    entries.push(
+      {
+        id: `house:${record.id}`,
+        type: LEDGER_ENTRY_TYPES.HOUSE_TAKE,
+        fromAccount: pot,
+        toAccount: HOUSE_ACCOUNT,
+        amountWei: BigInt(record.houseTakeWei || 0),
+        ...fields,
+      },
+      {
+        id: `carryover:${record.id}`,
+        type: LEDGER_ENTRY_TYPES.CARRYOVER,
+        fromAccount: pot,
+        toAccount: carryoverAccount(record.position),
+        amountWei: BigInt(record.carryoverAddedWei || 0),
+        ...fields,
+      }
+    );
+    return post(entries);
+  }
+
+  // Posts anything recorded before the ledger existed, or lost to a crash between a
+  // store change and its ledger entries.
+  function backfill() {
+    let posted = 0;
+    for (const bet of store.bets) posted += recordStake(bet);
+    for (const record of Object.values(store.settlements || {})) {
+      if (record.unrecordedCheckedAt) posted += recordUnrecorded(record);
+      if (record.status === SETTLEMENT_STATUS.CONFIRMED) posted += recordSettlement(record);
+    }
+    return posted;
+  }
+
+  function listBalances(prefix = "") {
+    return [...balances.entries()]
+      .filter(([account, wei]) => account.startsWith(prefix) && wei !== 0n)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([account, wei]) => ({ account, balanceWei: wei.toString(), balance: format(wei) }));
+  }
+
+  function entriesFor(account, { limit = 100, offset = 0 } = {}) {
+    const entries = Object.values(store.ledgerEntries)
+      .filter((entry) => entry.fromAccount === account || entry.toAccount === account)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+    return { total: entries.length, entries: entries.slice(offset, offset + limit) };
+  }
+
+  function walletSummary(address, options) {
+    const account = walletAccount(address);
+    const wei = balanceOf(account);
+    return { account, balanceWei: wei.toString(), balance: format(wei), ...entriesFor(account, options) };
+  }
+
+  return {
+    balanceOf,
+    recordStake,
+    recordTopUp,
+    recordUnrecorded,
+    recordSettlement,
+    listBalances,
+    entriesFor,
+    walletSummary,
+    backfill,
+  };
+}
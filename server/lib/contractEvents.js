@@ -0,0 +1,56 @@
+import { Interface } from "ethers";
+
+// Events the indexer follows, per contract.
+export const CONTRACT_EVENT_ABIS = {
+  vaultLedger: [
+    "event Deposit(address indexed user, address indexed token, uint256 amount)",
+    "event Withdraw(address indexed user, address indexed token, uint256 amount)",
+    "event BetPlaced(address indexed user, bytes32 indexed betId, address indexed token, uint256 amount)",
+    "event BetSettled(bytes32 indexed betId, address indexed user, address indexed token, uint256 stake, uint256 netAmount, uint8 outcome)",
+  ],
+  masterpiecePool: [
+    "event BetPlaced(bytes32 indexed betId, uint8 indexed position, address indexed user, uint256 amount)",
+    "event MarketSettled(bytes32 indexed betId, uint8 indexed position, uint256 payoutSum, uint256 houseTake, uint256 carryoverNext)",
+  ],
+  crashVault: [
+    "event BetPlaced(bytes32 indexed roundId, address indexed user, uint256 amount)",
+    "event Cashout(bytes32 indexed roundId, address indexed user, uint256 stake, uint256 payout)",
+    "event LossSettled(bytes32 indexed roundId, address indexed user, uint256 stake)",
+  ],
+};
+
+const interfaces = Object.fromEntries(
+  Object.entries(CONTRACT_EVENT_ABIS).map(([contract, abi]) => [contract, new Interface(abi)])
+);
+
+function plain(value) {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") return value.toLowerCase();
+  return value;
+}
+
+// Decodes a log emitted by one of the indexed contracts. Returns null for events the
+// indexer doesn't follow.
+export function decodeContractEvent(contract, log) {
+  const iface = interfaces[contract];
+  if (!iface) return null;
+  let parsed = null;
+  try {
+    parsed = iface.parseLog({ topics: log.topics, data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const args = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    args[input.name] = plain(parsed.args[index]);
+  });
+  return {
+    event: parsed.name,
+    user: args.user || null,
+    // Crash rounds are keyed by round id; it plays the same role as a bet id.
+    betId: args.betId || args.roundId || null,
+    args,
+  };
+}
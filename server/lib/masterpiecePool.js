@@ -0,0 +1,96 @@
+import { Interface } from "ethers";
+
+const MASTERPIECE_POOL_EVENTS_ABI = [
+  "event BetPlaced(bytes32 indexed betId, uint8 indexed position, address indexed user, uint256 amount)",
+];
+
+const poolInterface = new Interface(MASTERPIECE_POOL_EVENTS_ABI);
+
+export function normalizeTxHash(txHash) {
+  if (!txHash || typeof txHash !== "string") return null;
+  const trimmed = txHash.trim().toLowerCase();
+  return /^0x[0-9a-f]{64}$/.test(trimmed) ? trimmed : null;
+}
+
+export function decodeBetPlacedLogs(receipt, poolAddress) {
+  const pool = String(poolAddress || "").toLowerCase();
+  const out = [];
+  for (const log of receipt?.logs || []) {
+    if (String(log.address || "").toLowerCase() !== pool) continue;
+    let parsed = null;
+    try {
+      parsed = poolInterface.parseLog({ topics: log.topics, data: log.data });
+    } catch {
+      continue;
+    }
+    if (parsed?.name !== "BetPlaced") continue;
+    out.push({
+      betId: String(parsed.args.betId).toLowerCase(),
+      position: Number(parsed.args.position),
+      user: String(parsed.args.user).toLowerCase(),
+      amount: BigInt(parsed.args.amount),
+      logIndex: log.index ?? log.logIndex ?? null,
+    });
+  }
+  return out;
+}
+
+// Every wallet with a BetPlaced log in the market from `fromBlock` to the head, read in
+// ranges of `batchBlocks` so RPC log limits hold.
+export async function fetchBetPlacedUsers({ provider, poolAddress, betId, fromBlock = 0, batchBlocks = 2_000 }) {
+  const topics = [poolInterface.getEvent("BetPlaced").topicHash, betId];
+  const head = await provider.getBlockNumber();
+  const users = new Set();
+  for (let from = fromBlock; from <= head; from += batchBlocks) {
+    const toBlock = Math.min(from + batchBlocks - 1, head);
+    const logs = await provider.getLogs({ address: poolAddress, topics, fromBlock: from, toBlock });
+    for (const log of decodeBetPlacedLogs({ logs }, poolAddress)) users.add(log.user);
+  }
+  return [...users];
+}
+
+// Resolves once the transaction has `confirmations` blocks on top of it and carries a
+// BetPlaced log matching the expected market, bettor and amount.
+export async function verifyBetTransaction({
+  provider,
+  poolAddress,
+  txHash,
+  betId,
+  user,
+  amountWei,
+  confirmations = 1,
+  timeoutMs = 60_000,
+}) {
+  if (!provider || !poolAddress) return { error: "MASTERPIECE_POOL_ADDRESS not configured" };
+
+  const tx = await provider.getTransaction(txHash);
+  if (!tx) return { error: "transaction not found" };
+
+  let receipt = null;
+  try {
+    receipt = await provider.waitForTransaction(txHash, Math.max(1, confirmations), timeoutMs);
+  } catch (e) {
+    if (e?.code === "TIMEOUT") {
+      return { error: `transaction not confirmed yet (${confirmations} confirmations required)`, pending: true };
+    }
+    throw e;
+  }
+  if (!receipt) return { error: "transaction not confirmed yet", pending: true };
+  if (receipt.status !== 1) return { error: "transaction reverted" };
+
+  const logs = decodeBetPlacedLogs(receipt, poolAddress);
+  if (logs.length === 0) return { error: "no BetPlaced event from the masterpiece pool in transaction" };
+
+  const expectedBetId = String(betId).toLowerCase();
+  const expectedUser = String(user).toLowerCase();
+  const match = logs.find(
+    (log) => log.betId === expectedBetId && log.user === expectedUser && log.amount === amountWei
+  );
+  if (!match) {
+    if (!logs.some((log) => log.betId === expectedBetId)) return { error: "BetPlaced betId does not match market" };
+    if (!logs.some((log) => log.user === expectedUser)) return { error: "BetPlaced user does not match wallet" };
+    return { error: "BetPlaced amount does not match wager" };
+  }
+
+  return { ok: true, blockNumber: receipt.blockNumber, log: match };
+}
@@ -0,0 +1,278 @@
+// server/marketWatcher.js
+import { BET_STATUS } from "./betting.js";
+import { MARKET_STATE, hasStarted } from "./markets.js";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function errorMessage(e) {
+  return e?.shortMessage || e?.message || String(e);
+}
+
+// Polls every masterpiece that still has an unsettled market, closes betting once a
+// cutoff rule is met and, once the masterpiece finishes and `graceMs` has passed for
+// the leaderboard to settle down, runs settlement. A masterpiece still unfinished
+// `voidAfterMs` after it started, or a futures masterpiece that never went live, is
+// voided and refunded instead. Lookups and
+// settlements that fail back off exponentially per masterpiece, up to `maxBackoffMs`.
+export function createMarketWatcher({
+  store,
+  markets,
+  fetchMasterpiece,
+  settleMasterpiece,
+  voidMasterpiece,
+  enabled = true,
+  pollMs = 60_000,
+  graceMs = 5 * 60_000,
+  voidAfterMs = null,
+  maxBackoffMs = 30 * 60_000,
+  logger = console,
+}) {
+  // Runtime-only scheduling state, keyed by masterpiece id.
+  const schedule = new Map();
+  const status = {
+    enabled,
+    running: false,
+    pollMs,
+    graceMs,
+    voidAfterMs,
+    maxBackoffMs,
+    lastTickAt: null,
+    lastTickError: null,
+    ticks: 0,
+  };
+  let timer = null;
+  let ticking = false;
+
+  function watchedMasterpieceIds() {
+    const ids = new Set();
+    for (const bet of store.bets) {
+      const mpId = Number(bet.masterpieceId);
+      if (Number.isInteger(mpId)) ids.add(mpId);
+    }
+    for (const market of Object.values(store.markets || {})) ids.add(Number(market.masterpieceId));
+    return [...ids].filter((mpId) => !markets.isFinal(mpId));
+  }
+
+  function entryFor(masterpieceId) {
+    if (!schedule.has(masterpieceId)) {
+      schedule.set(masterpieceId, { failures: 0, nextCheckAt: 0, lastCheckedAt: null, lastError: null });
+    }
+    return schedule.get(masterpieceId);
+  }
+
+  function recordFailure(masterpieceId, entry, e) {
+    entry.failures += 1;
+    entry.lastError = errorMessage(e);
+    entry.nextCheckAt = Date.now() + Math.min(pollMs * 2 ** entry.failures, maxBackoffMs);
+    logger?.error?.("Market watcher failed for masterpiece", masterpieceId, e);
+  }
+
+  // Applies a settlement or void run to the market: settled (or voided) once every
+  // transaction confirmed, otherwise the error is recorded and thrown.
+  function applyRun(masterpieceId, result) {
+    if (result.error) throw new Error(result.error);
+    if (result.status === "confirmed") {
+      const market = markets.get(masterpieceId);
+      markets.update(
+        masterpieceId,
+        market?.voidReason
+          ? { state: MARKET_STATE.VOIDED, voidedAt: nowIso(), lastError: null }
+          : { state: MARKET_STATE.SETTLED, settledAt: nowIso(), lastError: null }
+      );
+      schedule.delete(masterpieceId);
+      return true;
+    }
+    if (result.status === "failed") {
+      const failed = result.positions.filter((record) => record.status === "failed");
+      const message = failed
+        .map((record) => `${record.market || "pool"} position ${record.position}: ${record.error}`)
+        .join("; ");
+      markets.update(masterpieceId, { lastError: message });
+      throw new Error(message);
+    }
+    return false;
+  }
+
+  async function settle(masterpieceId, entry) {
+    const market = markets.get(masterpieceId);
+    const result = market?.voidReason
+      ? await voidMasterpiece(masterpieceId, market.voidReason)
+      : await settleMasterpiece(masterpieceId);
+    if (applyRun(masterpieceId, result)) return;
+    // Transactions are still pending; check again on the next poll.
+    entry.failures = 0;
+    entry.nextCheckAt = Date.now() + pollMs;
+  }
+
+  function markVoid(masterpieceId, reason) {
+    const market = markets.get(masterpieceId);
+    return markets.update(masterpieceId, {
+      state: MARKET_STATE.CLOSED,
+      closedAt: market?.closedAt || nowIso(),
+      closeReason: "voided",
+      voidReason: market?.voidReason || reason,
+    });
+  }
+
+  // Closes the market for good and refunds every bet on it. Later ticks resume the
+  // refund transactions until they confirm.
+  async function voidMarket(masterpieceId, reason) {
+    const market = markets.get(masterpieceId);
+    if (markets.isFinal(masterpieceId)) return { error: `market is already ${market.state}` };
+    if (market?.settleAfter && !market.voidReason) return { error: "masterpiece has finished; settle it instead" };
+    if (store.results?.[masterpieceId]?.results?.some((r) => r.status !== BET_STATUS.VOIDED)) {
+      return { error: "masterpiece is already settled" };
+    }
+
+    const result = await voidMasterpiece(masterpieceId, markVoid(masterpieceId, reason).voidReason);
+    if (!result.error && result.status !== "failed") applyRun(masterpieceId, result);
+    return result;
+  }
+
+  // A futures market whose masterpiece isn't live yet: close it when its window ends and
+  // refund it once the start deadline passes.
+  async function checkFutures(masterpieceId, entry, market) {
+    if (Date.now() >= Date.parse(market.startDeadline)) {
+      logger?.log?.(`Futures market ${masterpieceId} never went live; voiding it`);
+      markVoid(masterpieceId, "masterpiece was not created before the deadline");
+      await settle(masterpieceId, entry);
+      entry.lastError = null;
+      return;
+    }
+    markets.checkWindow(masterpieceId);
+    entry.failures = 0;
+    entry.lastError = null;
+    entry.nextCheckAt = Date.now() + pollMs;
+  }
+
+  async function check(masterpieceId) {
+    const entry = entryFor(masterpieceId);
+    if (Date.now() < entry.nextCheckAt) return;
+    entry.lastCheckedAt = nowIso();
+
+    try {
+      let market = markets.get(masterpieceId);
+      if (market?.voidReason) {
+        await settle(masterpieceId, entry);
+        entry.lastError = null;
+        return;
+      }
+      if (!market?.settleAfter) {
+        const pending = market?.futures && !market.wentLiveAt;
+        let mp = null;
+        try {
+          const mpJson = await fetchMasterpiece(masterpieceId);
+          mp = mpJson?.data?.masterpiece;
+        } catch (e) {
+          // A futures masterpiece usually can't be looked up until it is created.
+          if (!pending) throw e;
+        }
+        if (pending && !hasStarted(mp)) {
+          await checkFutures(masterpieceId, entry, market);
+          return;
+        }
+        if (!mp) throw new Error("masterpiece not found");
+
+        const cutoff = markets.observe(masterpieceId, mp, { track: true });
+        const startedAt = Date.parse(markets.get(masterpieceId)?.startedAt || "");
+        if (!cutoff.finished && voidAfterMs && Date.now() - startedAt > voidAfterMs) {
+          logger?.log?.(`Market ${masterpieceId} did not finish in time; voiding it`);
+          markVoid(masterpieceId, "masterpiece did not finish");
+          await settle(masterpieceId, entry);
+          entry.lastError = null;
+          return;
+        }
+        if (!cutoff.finished) {
+          entry.failures = 0;
+          entry.lastError = null;
+          entry.nextCheckAt = Date.now() + pollMs;
+          return;
+        }
+
+        const finishedAt = nowIso();
+        market = markets.get(masterpieceId);
+        market = markets.update(masterpieceId, {
+          state: MARKET_STATE.CLOSED,
+          closedAt: market?.closedAt || finishedAt,
+          closeReason: market?.closeReason || "finished",
+          finishedAt,
+          settleAfter: new Date(Date.parse(finishedAt) + graceMs).toISOString(),
+        });
+        logger?.log?.(`Market ${masterpieceId} finished; settling after ${market.settleAfter}`);
+      }
+
+      const settleAfter = Date.parse(market.settleAfter || 0);
+      if (Date.now() < settleAfter) {
+        entry.nextCheckAt = Math.min(settleAfter, Date.now() + pollMs);
+        return;
+      }
+
+      await settle(masterpieceId, entry);
+      entry.lastError = null;
+    } catch (e) {
+      recordFailure(masterpieceId, entry, e);
+    }
+  }
+
+  async function tick() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const masterpieceId of watchedMasterpieceIds()) {
+        await check(masterpieceId);
+      }
+      status.lastTickError = null;
+    } catch (e) {
+      status.lastTickError = errorMessage(e);
+      logger?.error?.("Market watcher tick failed", e);
+    } finally {
+      status.lastTickAt = nowIso();
+      status.ticks += 1;
+      ticking = false;
+    }
+  }
+
+  function loop() {
+    timer = setTimeout(async () => {
+      await tick();
+      if (status.running) loop();
+    }, pollMs);
+  }
+
+  function start() {
+    if (!enabled || status.running) return;
+    status.running = true;
+    tick().finally(() => {
+      if (status.running) loop();
+    });
+  }
+
+  function stop() {
+    status.running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function getStatus() {
+    const ids = new Set([...Object.keys(store.markets || {}).map(Number), ...watchedMasterpieceIds()]);
+    const masterpieces = [...ids]
+      .sort((a, b) => a - b)
+      .map((masterpieceId) => {
+        const entry = schedule.get(masterpieceId);
+        return {
+          ...markets.view(masterpieceId),
+          lastError: markets.get(masterpieceId)?.lastError || null,
+          watched: !markets.isFinal(masterpieceId),
+          lastCheckedAt: entry?.lastCheckedAt || null,
+          nextCheckAt: entry?.nextCheckAt ? new Date(entry.nextCheckAt).toISOString() : null,
+          failures: entry?.failures || 0,
+          error: entry?.lastError || null,
+        };
+      });
+    return { ...status, masterpieces };
+  }
+
+  return { start, stop, tick, getStatus, voidMarket };
+}
@@ -0,0 +1,285 @@
+// server/markets.js
+
+export const MARKET_STATE = {
+  OPEN: "open",
+  SUSPENDED: "suspended",
+  CLOSED: "closed",
+  SETTLED: "settled",
+  VOIDED: "voided",
+};
+
+const FINAL_STATES = [MARKET_STATE.SETTLED, MARKET_STATE.VOIDED];
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function toMs(value) {
+  if (value === null || value === undefined || value === "") return NaN;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Date.parse(value);
+}
+
+// A masterpiece is live once the API returns it and its start time, if any, has passed.
+export function hasStarted(mp, now = Date.now()) {
+  if (!mp) return false;
+  const startedAtMs = toMs(mp.startedAt);
+  return !Number.isFinite(startedAtMs) || startedAtMs <= now;
+}
+
+// Where a masterpiece stands against the cutoff rules. Betting closes at
+// `cutoffPercent` of `requiredPoints` or `cutoffMinutes` after `startedAt`, whichever
+// comes first; a rule set to null is not applied.
+export function evaluateCutoff(mp, { cutoffPercent = null, cutoffMinutes = null } = {}, now = Date.now()) {
+  const collectedPoints = Number(mp?.collectedPoints);
+  const requiredPoints = Number(mp?.requiredPoints);
+  const hasPoints = Number.isFinite(collectedPoints) && Number.isFinite(requiredPoints) && requiredPoints > 0;
+  const finished = hasPoints && collectedPoints >= requiredPoints;
+
+  const startedAtMs = toMs(mp?.startedAt);
+  const closesAt =
+    cutoffMinutes !== null && Number.isFinite(startedAtMs)
+      ? new Date(startedAtMs + cutoffMinutes * 60_000).toISOString()
+      : null;
+  const closesAtPoints = cutoffPercent !== null && hasPoints ? (requiredPoints * cutoffPercent) / 100 : null;
+
+  let closeReason = null;
+  if (finished) closeReason = "finished";
+  else if (closesAtPoints !== null && collectedPoints >= closesAtPoints) closeReason = "points cutoff";
+  else if (closesAt && now >= Date.parse(closesAt)) closeReason = "time cutoff";
+
+  return {
+    finished,
+    progress: hasPoints ? Math.min(1, collectedPoints / requiredPoints) : null,
+    closesAt,
+    closesAtPoints,
+    closeReason,
+  };
+}
+
+// One market object per masterpiece, moving open → suspended → closed → settled or
+// voided. `onChange` is called with the public view whenever a market's state changes.
+export function createMarketRegistry({ store, persist, defaults = {}, onChange, logger = console }) {
+  if (!store.markets) store.markets = {};
+
+  function get(masterpieceId) {
+    return store.markets[String(masterpieceId)] || null;
+  }
+
+  function rulesFor(market) {
+    return {
+      cutoffPercent: market?.cutoffPercent ?? defaults.cutoffPercent ?? null,
+      cutoffMinutes: market?.cutoffMinutes ?? defaults.cutoffMinutes ?? null,
+    };
+  }
+
+  function view(masterpieceId, mp = null) {
+    const market = get(masterpieceId);
+    const snapshot = mp || market;
+    return {
+      masterpieceId: Number(masterpieceId),
+      state: market?.state || MARKET_STATE.OPEN,
+      closeReason: market?.closeReason || null,
+      closedAt: market?.closedAt || null,
+      suspendedAt: market?.suspendedAt || null,
+      suspendReason: market?.suspendReason || null,
+      voidReason: market?.voidReason || null,
+      futures: market?.futures
+        ? {
+            name: market.futuresName || null,
+            players: market.players || [],
+            opensAt: market.opensAt,
+            closesAt: market.closesAt,
+            startDeadline: market.startDeadline,
+            wentLiveAt: market.wentLiveAt || null,
+          }
+        : null,
+      settleAfter: market?.settleAfter || null,
+      settledAt: market?.settledAt || null,
+      collectedPoints: snapshot?.collectedPoints ?? null,
+      requiredPoints: snapshot?.requiredPoints ?? null,
+      startedAt: snapshot?.startedAt ?? null,
+      rules: rulesFor(market),
+      cutoff: evaluateCutoff(snapshot, rulesFor(market)),
+      updatedAt: market?.updatedAt || null,
+    };
+  }
+
+  function update(masterpieceId, patch) {
+    const key = String(masterpieceId);
+    const timestamp = nowIso();
+    const existing = store.markets[key] || {
+      id: key,
+      masterpieceId: Number(masterpieceId),
+      state: MARKET_STATE.OPEN,
+      collectedPoints: null,
+      requiredPoints: null,
+      startedAt: null,
+      closedAt: null,
+      closeReason: null,
+      suspendedAt: null,
+      suspendReason: null,
+      cutoffPercent: null,
+      cutoffMinutes: null,
+      finishedAt: null,
+      voidReason: null,
+      voidedAt: null,
+      futures: false,
+      futuresName: null,
+      players: null,
+      opensAt: null,
+      closesAt: null,
+      startDeadline: null,
+      wentLiveAt: null,
+      settleAfter: null,
+      settledAt: null,
+      lastError: null,
+      createdAt: timestamp,
+    };
+    store.markets[key] = { ...existing, ...patch, updatedAt: timestamp };
+    persist();
+    if (patch.state && patch.state !== existing.state) {
+      try {
+        onChange?.(view(masterpieceId));
+      } catch (e) {
+        logger?.error?.("Market change listener failed", e);
+      }
+    }
+    return store.markets[key];
+  }
+
+  function snapshotPatch(market, mp) {
+    if (!mp) return {};
+    const patch = {};
+    const collectedPoints = Number(mp.collectedPoints);
+    const requiredPoints = Number(mp.requiredPoints);
+    if (Number.isFinite(collectedPoints) && market?.collectedPoints !== collectedPoints) {
+      patch.collectedPoints = collectedPoints;
+    }
+    if (Number.isFinite(requiredPoints) && market?.requiredPoints !== requiredPoints) {
+      patch.requiredPoints = requiredPoints;
+    }
+    const startedAtMs = toMs(mp.startedAt);
+    const startedAt = Number.isFinite(startedAtMs) ? new Date(startedAtMs).toISOString() : null;
+    if (startedAt && market?.startedAt !== startedAt) patch.startedAt = startedAt;
+    return patch;
+  }
+
+  // Records the latest masterpiece data and closes an open market once a cutoff rule
+  // is met. Returns the cutoff evaluation. Without `track`, a market that has no record
+  // yet only gets one when it closes.
+  function observe(masterpieceId, mp, { track = false } = {}) {
+    const market = get(masterpieceId);
+    const cutoff = evaluateCutoff(mp, rulesFor(market));
+    const patch = snapshotPatch(market, mp);
+    const state = market?.state || MARKET_STATE.OPEN;
+    if (market?.futures && !market.wentLiveAt && hasStarted(mp)) patch.wentLiveAt = nowIso();
+    if (state === MARKET_STATE.OPEN && cutoff.closeReason) {
+      Object.assign(patch, { state: MARKET_STATE.CLOSED, closedAt: nowIso(), closeReason: cutoff.closeReason });
+    }
+    if (Object.keys(patch).length && (market || track || patch.state)) update(masterpieceId, patch);
+    return cutoff;
+  }
+
+  // Closes a futures market whose betting window ended before the masterpiece went live.
+  function checkWindow(masterpieceId, now = Date.now()) {
+    const market = get(masterpieceId);
+    if (!market?.futures || market.wentLiveAt || market.state !== MARKET_STATE.OPEN) return;
+    if (now >= Date.parse(market.closesAt)) {
+      update(masterpieceId, { state: MARKET_STATE.CLOSED, closedAt: nowIso(), closeReason: "futures window closed" });
+    }
+  }
+
+  // Error message if bets can't be taken on this masterpiece right now, else null.
+  function checkBetting(masterpieceId, mp = null) {
+    if (mp) observe(masterpieceId, mp);
+    checkWindow(masterpieceId);
+    const market = get(masterpieceId);
+    const state = market?.state || MARKET_STATE.OPEN;
+    if (state === MARKET_STATE.SUSPENDED) return "betting is suspended for this masterpiece";
+    if (state !== MARKET_STATE.OPEN) return "betting is closed for this masterpiece";
+    if (market?.futures && !market.wentLiveAt && Date.now() < Date.parse(market.opensAt)) {
+      return `futures betting opens at ${market.opensAt}`;
+    }
+    return null;
+  }
+
+  // Futures markets are created ahead of the masterpiece, with their own betting window
+  // and the players that may be picked. Bets are refunded if the masterpiece doesn't
+  // start by `startDeadline`.
+  function createFutures(masterpieceId, { name = null, players, opensAt, closesAt, startDeadline }) {
+    if (get(masterpieceId)) return { error: "a market already exists for this masterpiece" };
+    return {
+      market: update(masterpieceId, {
+        futures: true,
+        futuresName: name,
+        players,
+        opensAt,
+        closesAt,
+        startDeadline,
+      }),
+    };
+  }
+
+  function listFutures() {
+    return Object.values(store.markets)
+      .filter((market) => market.futures)
+      .sort((a, b) => a.masterpieceId - b.masterpieceId)
+      .map((market) => view(market.masterpieceId));
+  }
+
+  function suspend(masterpieceId, reason = null) {
+    const state = get(masterpieceId)?.state || MARKET_STATE.OPEN;
+    if (state !== MARKET_STATE.OPEN) return { error: `cannot suspend a ${state} market` };
+    return { market: update(masterpieceId, { state: MARKET_STATE.SUSPENDED, suspendedAt: nowIso(), suspendReason: reason }) };
+  }
+
+  // Suspended markets, and markets closed by a cutoff that no longer applies, can
+  // reopen until the masterpiece finishes.
+  function reopen(masterpieceId, mp = null) {
+    const market = get(masterpieceId);
+    const state = market?.state || MARKET_STATE.OPEN;
+    if (state !== MARKET_STATE.SUSPENDED && state !== MARKET_STATE.CLOSED) {
+      return { error: `cannot reopen a ${state} market` };
+    }
+    if (market.voidReason) return { error: "market is being voided" };
+    if (market.finishedAt) return { error: "masterpiece has finished" };
+    const cutoff = evaluateCutoff(mp || market, rulesFor(market));
+    if (cutoff.closeReason) return { error: `cannot reopen: ${cutoff.closeReason} reached, change the cutoff first` };
+    return {
+      market: update(masterpieceId, {
+        ...snapshotPatch(market, mp),
+        state: MARKET_STATE.OPEN,
+        suspendedAt: null,
+        suspendReason: null,
+        closedAt: null,
+        closeReason: null,
+      }),
+    };
+  }
+
+  function setCutoff(masterpieceId, { cutoffPercent, cutoffMinutes }) {
+    const state = get(masterpieceId)?.state || MARKET_STATE.OPEN;
+    if (FINAL_STATES.includes(state)) return { error: `cannot change the cutoff of a ${state} market` };
+    return { market: update(masterpieceId, { cutoffPercent, cutoffMinutes }) };
+  }
+
+  function isFinal(masterpieceId) {
+    return FINAL_STATES.includes(get(masterpieceId)?.state);
+  }
+
+  return {
+    get,
+    update,
+    view,
+    observe,
+    checkBetting,
+    checkWindow,
+    createFutures,
+    listFutures,
+    suspend,
+    reopen,
+    setCutoff,
+    isFinal,
+  };
+}
@@ -0,0 +1,60 @@
+// server/modelHistory.js
+import fs from "fs";
+
+// When a finished masterpiece ended, best source first: the market watcher saw it finish,
+// a snapshot fetch first saw it finished, or (for masterpieces only ever fetched after
+// they ended) its start time, which still keeps them in order.
+function endedAt(snapshot, market) {
+  if (market?.finishedAt) return { endedAt: market.finishedAt, endedAtSource: "watcher" };
+  if (snapshot.finishedAt) return { endedAt: snapshot.finishedAt, endedAtSource: "snapshot" };
+  if (snapshot.data?.startedAt) return { endedAt: snapshot.data.startedAt, endedAtSource: "startedAt" };
+  return { endedAt: snapshot.fetchedAt, endedAtSource: "fetchedAt" };
+}
+
+// Builds the `history.json` that `computeModelOdds` reads from stored masterpiece
+// snapshots: one entry per finished masterpiece, keyed by id, with its leaderboard as
+// `results[{ player, name, position, points }]`. Players are keyed by `profile.uid`;
+// the display name is kept alongside.
+export function buildModelHistory(snapshots, markets = {}) {
+  const history = {};
+  for (const snapshot of snapshots) {
+    if (!snapshot?.finished) continue;
+    const mp = snapshot.data || {};
+    const results = (mp.leaderboard || [])
+      .filter((entry) => entry?.profile?.uid)
+      .map((entry) => ({
+        player: entry.profile.uid,
+        name: entry.profile.displayName || null,
+        position: Number(entry.position),
+        points: Number(entry.masterpiecePoints) || 0,
+      }));
+    if (results.length === 0) continue;
+    history[String(snapshot.masterpieceId)] = {
+      name: mp.name || null,
+      ...endedAt(snapshot, markets[String(snapshot.masterpieceId)]),
+      results,
+    };
+  }
+  return history;
+}
+
+// Latest display name per player, for history keyed by uid.
+export function modelPlayerNames(history) {
+  const names = {};
+  const entries = Object.values(history || {}).sort(
+    (a, b) => new Date(a.endedAt).valueOf() - new Date(b.endedAt).valueOf()
+  );
+  for (const mp of entries) {
+    for (const r of mp.results || []) {
+      if (r?.player && r.name) names[r.player] = r.name;
+    }
+  }
+  return names;
+}
+
+// Written to a temporary file first so a reader never sees half of it.
+export function writeModelHistory(filePath, history) {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(history, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
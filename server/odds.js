@@ -1,5 +1,15 @@
+export const DEFAULT_MODEL_PARAMS = { lambda: 0.35, tau: 0.9, k: 3, usePoints: true };
+
+// Strength-based win probabilities from past results. `field`, when given, limits the
+// softmax to those players; any without history get the prior strength `k * baseline`.
 export function computeModelOdds(historyByMp, options = {}) {
-  const { lambda = 0.35, tau = 0.9, k = 3, usePoints = true } = options;
+  const {
+    lambda = DEFAULT_MODEL_PARAMS.lambda,
+    tau = DEFAULT_MODEL_PARAMS.tau,
+    k = DEFAULT_MODEL_PARAMS.k,
+    usePoints = DEFAULT_MODEL_PARAMS.usePoints,
+    field = null,
+  } = options;
 
   const mps = Object.entries(historyByMp || {})
     .map(([mpId, mp]) => ({ mpId, ...mp }))
@@ -11,7 +21,8 @@ export function computeModelOdds(historyByMp, options = {}) {
       if (r?.player) playersSet.add(r.player);
     }
   }
-  const players = Array.from(playersSet);
+  const known = Array.from(playersSet);
+  const players = Array.isArray(field) && field.length ? Array.from(new Set(field)) : known;
 
   let baselineSum = 0;
   let baselineN = 0;
@@ -24,7 +35,7 @@ export function computeModelOdds(historyByMp, options = {}) {
   }
   const baseline = baselineN ? baselineSum / baselineN : 0.25;
 
-  const strength = Object.fromEntries(players.map((p) => [p, 0]));
+  const form = Object.fromEntries(known.map((p) => [p, 0]));
   const totalEvents = mps.length;
 
   for (let idx = 0; idx < mps.length; idx += 1) {
@@ -39,15 +50,15 @@ export function computeModelOdds(historyByMp, options = {}) {
       if (usePoints && typeof r.points === "number") {
         pointsScore = Math.log(1 + Math.max(0, r.points)) / 20;
       }
-      strength[r.player] += weight * (placeScore + pointsScore);
+      form[r.player] += weight * (placeScore + pointsScore);
     }
   }
 
-  for (const player of players) {
-    strength[player] = strength[player] + k * baseline;
-  }
+  const strength = Object.fromEntries(players.map((player) => [player, (form[player] || 0) + k * baseline]));
 
-  const expVals = players.map((player) => Math.exp(strength[player] / tau));
+  // Shifting by the top strength keeps exp() finite for small `tau`; the softmax is unchanged.
+  const top = players.reduce((max, player) => Math.max(max, strength[player]), -Infinity);
+  const expVals = players.map((player) => Math.exp((strength[player] - top) / tau));
   const total = expVals.reduce((sum, val) => sum + val, 0) || 1;
 
   const probs = Object.fromEntries(players.map((player, idx) => [player, expVals[idx] / total]));
@@ -60,3 +71,56 @@ export function computeModelOdds(historyByMp, options = {}) {
 
   return { probs, odds, strength };
 }
+
+export const MODEL_POSITIONS = ["1", "2", "3", "top3"];
+
+// Plackett-Luce finishing order on the win probabilities from `computeModelOdds`: places
+// are drawn one at a time, each player in proportion to their share of the players
+// still left. Returns each player's chance of finishing exactly 1st, 2nd and 3rd, and in
+// the top 3. Exact, in O(n²).
+export function positionProbabilities(probs) {
+  const players = Object.keys(probs || {});
+  const w = players.map((player) => Math.max(0, Number(probs[player]) || 0));
+  const total = w.reduce((sum, value) => sum + value, 0) || 1;
+  const n = players.length;
+
+  // afterFirst[j]: P(j wins) divided by the weight left once j is out.
+  const afterFirst = w.map((wj) => (total - wj > 0 ? wj / (total * (total - wj)) : 0));
+  const afterFirstSum = afterFirst.reduce((sum, value) => sum + value, 0);
+
+  // P(j 1st, k 2nd) divided by the weight left once both are out, summed by row and column
+  // so the pairs a player is part of can be taken out of the total.
+  const rowSums = new Array(n).fill(0);
+  const colSums = new Array(n).fill(0);
+  let pairSum = 0;
+  for (let j = 0; j < n; j += 1) {
+    for (let k = 0; k < n; k += 1) {
+      if (j === k) continue;
+      const left = total - w[j] - w[k];
+      if (left <= 0) continue;
+      const value = afterFirst[j] * (w[k] / left);
+      rowSums[j] += value;
+      colSums[k] += value;
+      pairSum += value;
+    }
+  }
+
+  return Object.fromEntries(
+    players.map((player, i) => {
+      const first = w[i] / total;
+      const second = w[i] * (afterFirstSum - afterFirst[i]);
+      const third = w[i] * (pairSum - rowSums[i] - colSums[i]);
+      return [player, { 1: first, 2: second, 3: third, top3: Math.min(1, first + second + third) }];
+    })
+  );
+}
+
+// Probabilities and fair odds for one of `MODEL_POSITIONS`.
+export function positionOdds(probs, position) {
+  const table = positionProbabilities(probs);
+  const players = Object.keys(table);
+  return {
+    probs: Object.fromEntries(players.map((player) => [player, table[player][position]])),
+    odds: Object.fromEntries(players.map((player) => [player, 1 / Math.max(1e-9, table[player][position])])),
+  };
+}
@@ -0,0 +1,213 @@
+// server/oddsHistory.js
+import fs from "fs";
+import { evaluateCutoff } from "./markets.js";
+
+export const JOB_STATUS = {
+  RUNNING: "running",
+  DONE: "done",
+  FAILED: "failed",
+};
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function errorMessage(e) {
+  return e?.message || String(e);
+}
+
+// Masterpiece history for the odds tab, kept as one snapshot per masterpiece in
+// `store.masterpieceSnapshots`. A finished masterpiece never changes, so once its
+// snapshot is stored it is never fetched again; unfinished ones are refetched when
+// older than `unfinishedTtlMs` (or on `refresh`). Rebuilds run as one background job
+// at a time, fetching up to `concurrency` masterpieces at once; `onUpdate` runs after a
+// job that fetched anything.
+export function createOddsHistory({
+  store,
+  persist,
+  fetchMasterpiece,
+  concurrency = 4,
+  unfinishedTtlMs = 10 * 60_000,
+  legacyPath = null,
+  onUpdate,
+  logger = console,
+}) {
+  if (!store.masterpieceSnapshots) store.masterpieceSnapshots = {};
+  let job = null;
+  let running = null;
+
+  // Seeds the snapshots from the single odds_history.json blob older builds wrote.
+  function importLegacy() {
+    if (!legacyPath || Object.keys(store.masterpieceSnapshots).length > 0) return;
+    try {
+      if (!fs.existsSync(legacyPath)) return;
+      const legacy = JSON.parse(fs.readFileSync(legacyPath, "utf-8"));
+      for (const mp of legacy?.masterpieces || []) save(mp, legacy.updatedAt);
+      persist();
+      logger?.log?.(`Imported ${legacy?.masterpieces?.length || 0} masterpieces from ${legacyPath}`);
+    } catch (e) {
+      logger?.error?.("Failed to import legacy odds history:", e);
+    }
+  }
+
+  // `finishedAt` is the first fetch that saw the masterpiece finished after an earlier
+  // one saw it running; it stays null for masterpieces first fetched already finished.
+  function save(mp, fetchedAt = nowIso()) {
+    const id = Number(mp?.id);
+    if (!Number.isInteger(id) || id <= 0) return null;
+    const previous = store.masterpieceSnapshots[String(id)];
+    const finished = evaluateCutoff(mp).finished;
+    const at = fetchedAt || nowIso();
+    const snapshot = {
+      id: String(id),
+      masterpieceId: id,
+      finished,
+      finishedAt: previous?.finished ? previous.finishedAt ?? null : finished && previous ? at : null,
+      data: mp,
+      fetchedAt: at,
+    };
+    store.masterpieceSnapshots[snapshot.id] = snapshot;
+    return snapshot;
+  }
+
+  function snapshot(id) {
+    return store.masterpieceSnapshots[String(id)] || null;
+  }
+
+  function needsFetch(id, { refresh = false } = {}, now = Date.now()) {
+    const current = snapshot(id);
+    if (!current) return true;
+    if (current.finished) return false;
+    return refresh || now - Date.parse(current.fetchedAt) >= unfinishedTtlMs;
+  }
+
+  function pendingIds(startId, endId, options) {
+    const now = Date.now();
+    const ids = [];
+    for (let id = startId; id <= endId; id += 1) {
+      if (needsFetch(id, options, now)) ids.push(id);
+    }
+    return ids;
+  }
+
+  async function fetchOne(id) {
+    const json = await fetchMasterpiece(id, { fresh: true });
+    const mp = json?.data?.masterpiece;
+    if (!mp) throw new Error("masterpiece not found");
+    save(mp);
+  }
+
+  async function runJob(current, ids) {
+    let next = 0;
+    async function worker() {
+      while (next < ids.length) {
+        const id = ids[next];
+        next += 1;
+        try {
+          await fetchOne(id);
+          current.fetched += 1;
+        } catch (e) {
+          current.failed.push({ id, error: errorMessage(e) });
+          logger?.error?.("Failed to load masterpiece", id, e);
+        }
+        current.done += 1;
+        // Finished snapshots are written as they land so a restart keeps them.
+        if (current.done % 10 === 0) persist();
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+    persist();
+  }
+
+  // Starts a background rebuild of ids 1..endId, fetching only missing snapshots and
+  // stale (or, with `refresh`, all) unfinished ones. Returns the running job instead
+  // when one is already going; null when there's nothing to fetch.
+  function rebuild(endId, { refresh = false } = {}) {
+    if (running) return job;
+    const ids = pendingIds(1, endId, { refresh });
+    if (ids.length === 0) return null;
+
+    const current = {
+      id: `${Date.now()}`,
+      status: JOB_STATUS.RUNNING,
+      endId,
+      refresh,
+      total: ids.length,
+      done: 0,
+      fetched: 0,
+      failed: [],
+      startedAt: nowIso(),
+      finishedAt: null,
+      error: null,
+    };
+    job = current;
+    running = runJob(current, ids)
+      .then(() => {
+        current.status = JOB_STATUS.DONE;
+        if (current.fetched === 0) return;
+        try {
+          onUpdate?.(current);
+        } catch (e) {
+          logger?.error?.("Odds history update listener failed", e);
+        }
+      })
+      .catch((e) => {
+        current.status = JOB_STATUS.FAILED;
+        current.error = errorMessage(e);
+        logger?.error?.("Odds history rebuild failed", e);
+      })
+      .finally(() => {
+        current.finishedAt = nowIso();
+        running = null;
+      });
+    return current;
+  }
+
+  function getJob() {
+    if (!job) return null;
+    return { ...job, failed: [...job.failed], progress: job.total ? job.done / job.total : 1 };
+  }
+
+  // Stored masterpieces in [startId, endId], oldest first. `missing` counts ids in the
+  // range with no snapshot yet.
+  function range({ startId = 1, endId, offset = 0, limit = 500 }) {
+    const stored = [];
+    let updatedAt = null;
+    for (let id = startId; id <= endId; id += 1) {
+      const current = snapshot(id);
+      if (!current) continue;
+      stored.push(current);
+      if (!updatedAt || current.fetchedAt > updatedAt) updatedAt = current.fetchedAt;
+    }
+    return {
+      startId,
+      endId,
+      updatedAt,
+      total: stored.length,
+      missing: endId - startId + 1 - stored.length,
+      offset,
+      limit,
+      masterpieces: stored.slice(offset, offset + limit).map((current) => current.data),
+    };
+  }
+
+  function snapshots() {
+    return Object.values(store.masterpieceSnapshots).sort((a, b) => a.masterpieceId - b.masterpieceId);
+  }
+
+  // Every stored masterpiece, in the shape the old odds_history.json blob had.
+  function all() {
+    const stored = snapshots();
+    if (stored.length === 0) return null;
+    return {
+      startId: stored[0].masterpieceId,
+      endId: stored[stored.length - 1].masterpieceId,
+      updatedAt: stored.reduce((latest, current) => (current.fetchedAt > latest ? current.fetchedAt : latest), ""),
+      masterpieces: stored.map((current) => current.data),
+    };
+  }
+
+  importLegacy();
+
+  return { rebuild, getJob, range, all, snapshots, pendingIds };
+}
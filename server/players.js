@@ -0,0 +1,159 @@
+// server/players.js
+import { BET_OUTCOME } from "./betOutcomes.js";
+import { MARKET_TYPES, betMarketType, isVoided, normalizeName } from "./betting.js";
+import { computeModelOdds } from "./odds.js";
+
+function rate(count, total) {
+  return total > 0 ? count / total : null;
+}
+
+// Whether a bet backs the player: any trifecta pick, otherwise the pick itself (the
+// opponent of a head-to-head is bet against). Legacy bets without a uid match by name.
+function backs(bet, uid, name) {
+  if (betMarketType(bet) === MARKET_TYPES.TRIFECTA) return (bet.picks || []).includes(uid);
+  if (bet.pickedUid) return bet.pickedUid === uid;
+  return Boolean(name) && normalizeName(bet.pickedName) === normalizeName(name);
+}
+
+// Every stored masterpiece the player is on the leaderboard of, newest first.
+function playerAppearances(uid, snapshots) {
+  const appearances = [];
+  for (const snapshot of snapshots) {
+    const mp = snapshot.data || {};
+    const leaderboard = mp.leaderboard || [];
+    const entry = leaderboard.find((row) => row?.profile?.uid === uid);
+    if (!entry) continue;
+    appearances.push({
+      masterpieceId: snapshot.masterpieceId,
+      masterpieceName: mp.name || null,
+      finished: snapshot.finished,
+      name: entry.profile.displayName || uid,
+      position: Number(entry.position),
+      points: Number(entry.masterpiecePoints) || 0,
+      players: leaderboard.length,
+    });
+  }
+  return appearances.sort((a, b) => b.masterpieceId - a.masterpieceId);
+}
+
+// The player's model strength and win probability after each of the last
+// `trendPoints` masterpieces in the history, oldest first.
+function modelTrend(uid, history, params, trendPoints) {
+  const entries = Object.entries(history || {}).sort(
+    (a, b) => new Date(a[1].endedAt).valueOf() - new Date(b[1].endedAt).valueOf()
+  );
+  const trend = [];
+  for (let i = Math.max(0, entries.length - trendPoints); i < entries.length; i += 1) {
+    const [masterpieceId, mp] = entries[i];
+    const { probs, strength } = computeModelOdds(Object.fromEntries(entries.slice(0, i + 1)), params);
+    const result = (mp.results || []).find((r) => r.player === uid);
+    trend.push({
+      masterpieceId: Number(masterpieceId),
+      endedAt: mp.endedAt,
+      position: result ? result.position : null,
+      strength: strength[uid] ?? null,
+      probability: probs[uid] ?? null,
+    });
+  }
+  return trend;
+}
+
+function backerSummary(bets, outcomes) {
+  const summary = {
+    bets: bets.length,
+    bettors: new Set(bets.map((bet) => bet.user)).size,
+    open: 0,
+    won: 0,
+    lost: 0,
+    voided: 0,
+    carriedOver: 0,
+    settledStake: 0,
+    returned: 0,
+  };
+  for (const bet of bets) {
+    const outcome = outcomes.get(bet.id);
+    switch (outcome?.status) {
+      case BET_OUTCOME.WON:
+        summary.won += 1;
+        break;
+      case BET_OUTCOME.LOST:
+        summary.lost += 1;
+        break;
+      case BET_OUTCOME.CARRIED_OVER:
+        summary.carriedOver += 1;
+        break;
+      case BET_OUTCOME.VOIDED:
+        summary.voided += 1;
+        continue;
+      default:
+        summary.open += 1;
+        continue;
+    }
+    summary.settledStake += bet.amount;
+    summary.returned += outcome.payout;
+  }
+  return {
+    ...summary,
+    winRate: rate(summary.won, summary.won + summary.lost + summary.carriedOver),
+    net: summary.returned - summary.settledStake,
+  };
+}
+
+// Everything known about one player: their masterpieces from the stored snapshots,
+// win and podium rates over the finished ones, their model strength now and over the
+// last masterpieces, what has been staked on them by market and how their backers have
+// done. Returns null for a player with no appearances, model history or bets.
+export function playerProfile(uid, { snapshots, history, params, bets, outcomes, trendPoints = 10 }) {
+  const appearances = playerAppearances(uid, snapshots);
+  const finished = appearances.filter((appearance) => appearance.finished);
+  const wins = finished.filter((appearance) => appearance.position === 1).length;
+  const podiums = finished.filter((appearance) => appearance.position <= 3).length;
+
+  const model = computeModelOdds(history, params);
+  const inModel = uid in model.strength;
+  const ranked = Object.keys(model.strength).sort((a, b) => model.strength[b] - model.strength[a]);
+  const historyName = Object.values(history || {})
+    .flatMap((mp) => mp.results || [])
+    .find((r) => r.player === uid && r.name)?.name;
+  const name = appearances[0]?.name || historyName || null;
+
+  const backing = bets.filter((bet) => backs(bet, uid, name));
+  if (appearances.length === 0 && !inModel && backing.length === 0) return null;
+
+  const live = backing.filter((bet) => !isVoided(bet));
+  const stakedByMarket = Object.fromEntries(Object.values(MARKET_TYPES).map((type) => [type, 0]));
+  for (const bet of live) stakedByMarket[betMarketType(bet)] += bet.amount;
+
+  return {
+    uid,
+    name: name || uid,
+    stats: {
+      appearances: appearances.length,
+      finished: finished.length,
+      wins,
+      podiums,
+      winRate: rate(wins, finished.length),
+      podiumRate: rate(podiums, finished.length),
+      averagePosition: rate(
+        finished.reduce((sum, appearance) => sum + appearance.position, 0),
+        finished.length
+      ),
+    },
+    model: inModel
+      ? {
+          strength: model.strength[uid],
+          probability: model.probs[uid],
+          odds: model.odds[uid],
+          rank: ranked.indexOf(uid) + 1,
+          players: ranked.length,
+          trend: modelTrend(uid, history, params, trendPoints),
+        }
+      : null,
+    staked: {
+      total: live.reduce((sum, bet) => sum + bet.amount, 0),
+      byMarket: stakedByMarket,
+    },
+    backers: backerSummary(backing, outcomes),
+    appearances,
+  };
+}
@@ -0,0 +1,326 @@
+// server/projections.js
+import { evaluateCutoff, hasStarted } from "./markets.js";
+
+// Recent pace gets this much weight against the average since `startedAt`.
+const RECENT_WEIGHT = 0.7;
+// Spread of a player's future scoring rate, as a fraction of it, when the samples are
+// too few to measure one; and the spread of the time left to finish.
+const DEFAULT_RATE_CV = 0.35;
+const ETA_CV = 0.2;
+// Recent rates need samples at least this far apart.
+const MIN_SPAN_MS = 5 * 60_000;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function errorMessage(e) {
+  return e?.message || String(e);
+}
+
+// Small seeded PRNG so the same samples give the same projection.
+function mulberry32(seed) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random) {
+  const u = Math.max(Number.EPSILON, random());
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function toSample(mp, at = nowIso()) {
+  return {
+    at,
+    collectedPoints: Number(mp.collectedPoints) || 0,
+    requiredPoints: Number(mp.requiredPoints) || 0,
+    leaderboard: (mp.leaderboard || [])
+      .filter((entry) => entry?.profile?.uid)
+      .map((entry) => ({
+        uid: entry.profile.uid,
+        name: entry.profile.displayName || entry.profile.uid,
+        position: Number(entry.position),
+        points: Number(entry.masterpiecePoints) || 0,
+      })),
+    resources: (mp.resources || []).map((resource) => ({
+      symbol: resource.symbol,
+      amount: Number(resource.amount) || 0,
+      target: Number(resource.target) || 0,
+    })),
+  };
+}
+
+function ratePerMs(from, to, fromAt, toAt) {
+  const span = toAt - fromAt;
+  return span > 0 ? Math.max(0, (to - from) / span) : null;
+}
+
+function blend(recent, overall) {
+  if (recent === null) return overall ?? 0;
+  if (overall === null) return recent;
+  return RECENT_WEIGHT * recent + (1 - RECENT_WEIGHT) * overall;
+}
+
+// Spread of a player's rate between consecutive samples in the window, relative to its mean.
+function rateCv(window, uid) {
+  const rates = [];
+  for (let i = 1; i < window.length; i += 1) {
+    const prev = window[i - 1].leaderboard.find((entry) => entry.uid === uid);
+    const next = window[i].leaderboard.find((entry) => entry.uid === uid);
+    if (!prev || !next) continue;
+    const rate = ratePerMs(prev.points, next.points, Date.parse(window[i - 1].at), Date.parse(window[i].at));
+    if (rate !== null) rates.push(rate);
+  }
+  if (rates.length < 3) return DEFAULT_RATE_CV;
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  if (mean <= 0) return DEFAULT_RATE_CV;
+  const variance = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0) / (rates.length - 1);
+  return Math.min(1.5, Math.max(0.1, Math.sqrt(variance) / mean));
+}
+
+// Projects the final standings of a running masterpiece from its leaderboard samples
+// (oldest first). Scoring rates blend the pace over the last `windowMs` with the
+// average since `startedAt`; the masterpiece's own rate gives the time left to reach
+// `requiredPoints`. `simulations` runs then draw each player's rate and the time left
+// with some noise and count how often each player ends 1st, 2nd and 3rd.
+export function projectStandings(
+  { masterpieceId, startedAt, samples },
+  { windowMs = 60 * 60_000, simulations = 5_000 } = {}
+) {
+  const last = samples[samples.length - 1];
+  const lastAt = Date.parse(last.at);
+  const startedAtMs = Date.parse(startedAt || "");
+  const finished = evaluateCutoff(last).finished;
+  const window = samples.filter((sample) => Date.parse(sample.at) >= lastAt - windowMs);
+  const first = window[0];
+  const recentUsable = lastAt - Date.parse(first.at) >= MIN_SPAN_MS;
+  const overallUsable = Number.isFinite(startedAtMs) && lastAt > startedAtMs;
+
+  const masterpieceRate = blend(
+    recentUsable ? ratePerMs(first.collectedPoints, last.collectedPoints, Date.parse(first.at), lastAt) : null,
+    overallUsable ? ratePerMs(0, last.collectedPoints, startedAtMs, lastAt) : null
+  );
+  const remaining = Math.max(0, last.requiredPoints - last.collectedPoints);
+  const etaMs = finished ? 0 : masterpieceRate > 0 ? remaining / masterpieceRate : null;
+
+  const players = last.leaderboard.map((entry) => {
+    const earlier = first.leaderboard.find((row) => row.uid === entry.uid);
+    const rate = blend(
+      recentUsable && earlier ? ratePerMs(earlier.points, entry.points, Date.parse(first.at), lastAt) : null,
+      overallUsable ? ratePerMs(0, entry.points, startedAtMs, lastAt) : null
+    );
+    return { ...entry, rate, cv: rateCv(window, entry.uid) };
+  });
+
+  const counts = players.map(() => [0, 0, 0]);
+  const horizon = etaMs ?? 0;
+  const runs = finished || horizon === 0 ? 1 : simulations;
+  const random = mulberry32(Number(masterpieceId) * 2654435761 + lastAt);
+  const finals = new Array(players.length);
+  for (let run = 0; run < runs; run += 1) {
+    const time = runs === 1 ? horizon : horizon * Math.max(0, 1 + ETA_CV * gaussian(random));
+    for (let i = 0; i < players.length; i += 1) {
+      const { points, rate, cv } = players[i];
+      const drawn = runs === 1 ? rate : rate * Math.max(0, 1 + cv * gaussian(random));
+      finals[i] = points + drawn * time;
+    }
+    // Top three by final points; equal points keep the current leaderboard order.
+    const top = [];
+    for (let i = 0; i < players.length; i += 1) {
+      let at = top.length;
+      while (at > 0 && finals[i] > finals[top[at - 1]]) at -= 1;
+      if (at < 3) {
+        top.splice(at, 0, i);
+        if (top.length > 3) top.pop();
+      }
+    }
+    top.forEach((index, place) => {
+      counts[index][place] += 1;
+    });
+  }
+
+  const projected = players
+    .map((player, i) => ({
+      uid: player.uid,
+      name: player.name,
+      position: player.position,
+      points: player.points,
+      ratePerMinute: player.rate * 60_000,
+      projectedPoints: player.points + player.rate * horizon,
+      p1: counts[i][0] / runs,
+      p2: counts[i][1] / runs,
+      p3: counts[i][2] / runs,
+      top3: (counts[i][0] + counts[i][1] + counts[i][2]) / runs,
+    }))
+    .sort((a, b) => b.projectedPoints - a.projectedPoints || a.position - b.position);
+
+  return {
+    masterpieceId: Number(masterpieceId),
+    asOf: last.at,
+    finished,
+    samples: samples.length,
+    collectedPoints: last.collectedPoints,
+    requiredPoints: last.requiredPoints,
+    ratePerMinute: masterpieceRate * 60_000,
+    etaMinutes: etaMs === null ? null : etaMs / 60_000,
+    finishesAt: etaMs === null ? null : new Date(lastAt + etaMs).toISOString(),
+    simulations: runs,
+    players: projected,
+  };
+}
+
+// Samples the leaderboard and resources of every running masterpiece every
+// `intervalMs`: the ones `watchedIds()` returns plus any whose projection or timeline
+// was asked for in the last `idleMs`. Each sample goes to `saveSample`; the last
+// `maxSamples` per masterpiece are also kept in memory for projections, reloaded with
+// `loadSamples` after a restart.
+export function createProjectionTracker({
+  fetchMasterpiece,
+  watchedIds = () => [],
+  saveSample,
+  loadSamples,
+  intervalMs = 60_000,
+  windowMs = 60 * 60_000,
+  maxSamples = 240,
+  idleMs = 30 * 60_000,
+  simulations = 5_000,
+  logger = console,
+}) {
+  // Keyed by masterpiece id: { startedAt, samples, finished, requestedAt, lastError }.
+  const tracked = new Map();
+  let timer = null;
+  let running = false;
+  let ticking = false;
+
+  function entryFor(masterpieceId) {
+    if (!tracked.has(masterpieceId)) {
+      tracked.set(masterpieceId, {
+        startedAt: null,
+        samples: [],
+        finished: false,
+        requestedAt: 0,
+        lastError: null,
+        loaded: null,
+      });
+    }
+    return tracked.get(masterpieceId);
+  }
+
+  // Picks up the samples stored before a restart, once per masterpiece.
+  function hydrate(masterpieceId, entry) {
+    if (!entry.loaded) {
+      entry.loaded = Promise.resolve(loadSamples ? loadSamples(masterpieceId, { limit: maxSamples }) : [])
+        .then((stored) => {
+          const known = new Set(entry.samples.map((sample) => sample.at));
+          entry.samples = [...stored.filter((sample) => !known.has(sample.at)), ...entry.samples].slice(-maxSamples);
+        })
+        .catch((e) => {
+          entry.loaded = null;
+          logger?.error?.("Failed to load leaderboard samples for masterpiece", masterpieceId, e);
+        });
+    }
+    return entry.loaded;
+  }
+
+  async function sample(masterpieceId) {
+    const entry = entryFor(masterpieceId);
+    await hydrate(masterpieceId, entry);
+    const json = await fetchMasterpiece(masterpieceId);
+    const mp = json?.data?.masterpiece;
+    if (!mp) throw new Error("masterpiece not found");
+    if (!hasStarted(mp)) return entry;
+    const next = toSample(mp);
+    entry.startedAt = mp.startedAt || entry.startedAt;
+    entry.samples.push(next);
+    if (entry.samples.length > maxSamples) entry.samples.splice(0, entry.samples.length - maxSamples);
+    entry.finished = evaluateCutoff(mp).finished;
+    entry.lastError = null;
+    Promise.resolve(saveSample?.(masterpieceId, next)).catch((e) => {
+      logger?.error?.("Failed to store leaderboard sample for masterpiece", masterpieceId, e);
+    });
+    return entry;
+  }
+
+  // Keeps sampling a masterpiece for the next `idleMs`; returns whether it has started.
+  async function watch(masterpieceId) {
+    const entry = entryFor(masterpieceId);
+    entry.requestedAt = Date.now();
+    await hydrate(masterpieceId, entry);
+    const last = entry.samples[entry.samples.length - 1];
+    if (!entry.finished && (!last || Date.now() - Date.parse(last.at) >= intervalMs)) await sample(masterpieceId);
+    return entry.samples.length > 0;
+  }
+
+  function activeIds() {
+    const ids = new Set(watchedIds().map(Number));
+    for (const [masterpieceId, entry] of tracked) {
+      if (Date.now() - entry.requestedAt < idleMs) ids.add(masterpieceId);
+    }
+    return [...ids].filter((masterpieceId) => !tracked.get(masterpieceId)?.finished);
+  }
+
+  async function tick() {
+    if (ticking) return;
+    ticking = true;
+    try {
+      for (const masterpieceId of activeIds()) {
+        try {
+          await sample(masterpieceId);
+        } catch (e) {
+          entryFor(masterpieceId).lastError = errorMessage(e);
+          logger?.error?.("Projection sample failed for masterpiece", masterpieceId, e);
+        }
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  // The latest projection; samples right away when there is nothing recent to go on.
+  async function projection(masterpieceId) {
+    if (!(await watch(masterpieceId))) return { error: "masterpiece has not started" };
+    const entry = entryFor(masterpieceId);
+    return projectStandings({ masterpieceId, startedAt: entry.startedAt, samples: entry.samples }, { windowMs, simulations });
+  }
+
+  function loop() {
+    timer = setTimeout(async () => {
+      await tick();
+      if (running) loop();
+    }, intervalMs);
+  }
+
+  function start() {
+    if (running) return;
+    running = true;
+    loop();
+  }
+
+  function stop() {
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function getStatus() {
+    return {
+      running,
+      intervalMs,
+      masterpieces: [...tracked].map(([masterpieceId, entry]) => ({
+        masterpieceId,
+        samples: entry.samples.length,
+        lastSampleAt: entry.samples[entry.samples.length - 1]?.at || null,
+        finished: entry.finished,
+        lastError: entry.lastError,
+      })),
+    };
+  }
+
+  return { start, stop, tick, watch, projection, getStatus };
+}
@@ -0,0 +1,218 @@
+// server/reconciliation.js
+import { formatUnits } from "ethers";
+import { LEDGER_ENTRY_TYPES, carryoverAccount, walletAccount } from "./ledger.js";
+import { SETTLEMENT_STATUS } from "./settlement.js";
+import { safeGetLockedBalance } from "./lib/vaultLedger.js";
+
+const POSITIONS = [1, 2, 3];
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function errorMessage(e) {
+  return e?.shortMessage || e?.message || String(e);
+}
+
+// Compares ledger balances with what the contracts hold: every pot that still has
+// DYNW in the ledger (or hasn't settled) against `MasterpiecePool.getPool`, each
+// position's carryover against `carryoverByPosition`, each wallet's stakes on an
+// on-chain market against `MasterpiecePool.stakes` and, when a VaultLedger is
+// configured, each wallet's open stakes against its locked vault balance. Markets
+// with a settlement transaction in flight are skipped until it lands.
+export function createReconciler({
+  store,
+  ledger,
+  poolContract,
+  vaultContract = null,
+  tokenAddress = null,
+  decimals,
+  intervalMs = 15 * 60_000,
+  logger = console,
+}) {
+  let report = null;
+  let running = false;
+  let timer = null;
+  let active = null;
+
+  function settlementFor(settlementId) {
+    return store.settlements?.[settlementId] || null;
+  }
+
+  // Pots the ledger knows about, with their on-chain bet id and journal state.
+  function ledgerPots() {
+    const pots = new Map();
+    for (const entry of Object.values(store.ledgerEntries || {})) {
+      for (const account of [entry.fromAccount, entry.toAccount]) {
+        if (!account.startsWith("pot:") || pots.has(account) || !entry.betId) continue;
+        const settlementId = account.slice("pot:".length);
+        pots.set(account, { account, settlementId, betId: entry.betId, position: entry.position });
+      }
+    }
+    return [...pots.values()];
+  }
+
+  function mismatch(kind, account, ledgerWei, onChainWei, extra = {}) {
+    return {
+      kind,
+      account,
+      ...extra,
+      ledgerWei: ledgerWei.toString(),
+      onChainWei: onChainWei.toString(),
+      differenceWei: (ledgerWei - onChainWei).toString(),
+      ledger: Number(formatUnits(ledgerWei, decimals)),
+      onChain: Number(formatUnits(onChainWei, decimals)),
+    };
+  }
+
+  async function reconcile() {
+    const startedAt = nowIso();
+    const mismatches = [];
+    const errors = [];
+    const checked = { pots: 0, carryover: 0, stakes: 0, wallets: 0 };
+    const skipped = [];
+
+    const pots = ledgerPots();
+    const inFlight = new Set(
+      pots
+        .filter(({ settlementId }) => settlementFor(settlementId)?.status === SETTLEMENT_STATUS.SUBMITTED)
+        .map(({ account }) => account)
+    );
+
+    for (const pot of pots) {
+      const status = settlementFor(pot.settlementId)?.status;
+      const ledgerWei = ledger.balanceOf(pot.account);
+      if (inFlight.has(pot.account)) {
+        skipped.push(pot.account);
+        continue;
+      }
+      if (status === SETTLEMENT_STATUS.CONFIRMED && ledgerWei === 0n) continue;
+      try {
+        const onChainWei = BigInt(await poolContract.getPool(pot.betId));
+        checked.pots += 1;
+        if (onChainWei !== ledgerWei) {
+          mismatches.push(mismatch("pot", pot.account, ledgerWei, onChainWei, { betId: pot.betId }));
+        }
+      } catch (e) {
+        errors.push({ account: pot.account, error: errorMessage(e) });
+      }
+    }
+
+    for (const position of POSITIONS) {
+      const account = carryoverAccount(position);
+      if (pots.some((pot) => pot.position === position && inFlight.has(pot.account))) {
+        skipped.push(account);
+        continue;
+      }
+      try {
+        const onChainWei = BigInt(await poolContract.carryoverByPosition(position));
+        const ledgerWei = ledger.balanceOf(account);
+        checked.carryover += 1;
+        if (onChainWei !== ledgerWei) mismatches.push(mismatch("carryover", account, ledgerWei, onChainWei));
+      } catch (e) {
+        errors.push({ account, error: errorMessage(e) });
+      }
+    }
+
+    // `stakes(betId, user)` only ever grows (settling doesn't clear it), so every
+    // stake entry counts, settled or not.
+    const stakes = new Map();
+    for (const entry of Object.values(store.ledgerEntries || {})) {
+      if (entry.type !== LEDGER_ENTRY_TYPES.STAKE || !entry.betId || !entry.fromAccount.startsWith("wallet:")) continue;
+      const key = `${entry.betId}:${entry.fromAccount}`;
+      const current = stakes.get(key) || { betId: entry.betId, account: entry.fromAccount, ledgerWei: 0n };
+      current.ledgerWei += BigInt(entry.amountWei);
+      stakes.set(key, current);
+    }
+    for (const { betId, account, ledgerWei } of stakes.values()) {
+      const address = account.slice("wallet:".length);
+      try {
+        const onChainWei = BigInt(await poolContract.stakes(betId, address));
+        checked.stakes += 1;
+        if (onChainWei !== ledgerWei) mismatches.push(mismatch("stake", account, ledgerWei, onChainWei, { betId }));
+      } catch (e) {
+        errors.push({ account, betId, error: errorMessage(e) });
+      }
+    }
+
+    if (vaultContract && tokenAddress) {
+      // Stakes still escrowed: placed on a pot whose settlement hasn't confirmed.
+      const openStakes = new Map();
+      for (const entry of Object.values(store.ledgerEntries || {})) {
+        if (entry.type !== LEDGER_ENTRY_TYPES.STAKE || inFlight.has(entry.toAccount)) continue;
+        const status = settlementFor(entry.toAccount.slice("pot:".length))?.status;
+        if (status === SETTLEMENT_STATUS.CONFIRMED) continue;
+        openStakes.set(entry.fromAccount, (openStakes.get(entry.fromAccount) || 0n) + BigInt(entry.amountWei));
+      }
+      for (const [account, ledgerWei] of openStakes) {
+        const address = account.slice("wallet:".length);
+        try {
+          const onChainWei = await safeGetLockedBalance(vaultContract, tokenAddress, address);
+          checked.wallets += 1;
+          if (onChainWei !== ledgerWei) {
+            mismatches.push(mismatch("vault", walletAccount(address), ledgerWei, onChainWei));
+          }
+        } catch (e) {
+          errors.push({ account, error: errorMessage(e) });
+        }
+      }
+    }
+
+    return {
+      startedAt,
+      finishedAt: nowIso(),
+      ok: mismatches.length === 0 && errors.length === 0,
+      checked,
+      skipped,
+      mismatches,
+      errors,
+    };
+  }
+
+  // Concurrent calls share one run.
+  function run() {
+    if (!poolContract) return Promise.resolve({ error: "MASTERPIECE_POOL_ADDRESS not configured" });
+    if (active) return active;
+    active = reconcile()
+      .then((next) => {
+        report = next;
+        if (next.mismatches.length) {
+          logger?.error?.(`Ledger reconciliation found ${next.mismatches.length} mismatch(es)`, next.mismatches);
+        }
+        return next;
+      })
+      .finally(() => {
+        active = null;
+      });
+    return active;
+  }
+
+  function loop() {
+    timer = setTimeout(async () => {
+      try {
+        await run();
+      } catch (e) {
+        logger?.error?.("Ledger reconciliation failed", e);
+      }
+      if (running) loop();
+    }, intervalMs);
+  }
+
+  function start() {
+    if (!poolContract || !intervalMs || running) return;
+    running = true;
+    loop();
+  }
+
+  function stop() {
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function getReport() {
+    return { enabled: Boolean(poolContract), intervalMs, running: Boolean(active), report };
+  }
+
+  return { start, stop, run, getReport };
+}
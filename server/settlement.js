@@ -0,0 +1,556 @@
+// server/settlement.js
+import { formatUnits, parseUnits } from "ethers";
+import {
+  BET_MODES,
+  BET_STATUS,
+  MARKET_TYPES,
+  SPECIAL_MARKET_POSITION,
+  betMarket,
+  betMarketType,
+  betVoidReason,
+  isVoided,
+  marketTypeOf,
+  settleFixedOddsMarket,
+  settleHeadToHeadMarket,
+  settleMarket,
+  settleTop3Market,
+  settleTrifectaMarket,
+  voidMarket,
+  withRefunds,
+} from "./betting.js";
+
+export const SETTLEMENT_STATUS = {
+  COMPUTED: "computed",
+  SUBMITTED: "submitted",
+  CONFIRMED: "confirmed",
+  FAILED: "failed",
+};
+
+const POSITIONS = [1, 2, 3];
+
+// Markets every masterpiece settles: a pool per position plus the fixed-odds book,
+// which only prices 1st place. Trifecta, top-3 and head-to-head pots are added when
+// someone bet on them.
+const MARKETS = [
+  ...POSITIONS.map((position) => ({ position, market: BET_MODES.POOL })),
+  { position: 1, market: BET_MODES.FIXED },
+];
+
+const SETTLE_BY_MARKET = {
+  [BET_MODES.POOL]: settleMarket,
+  [BET_MODES.FIXED]: settleFixedOddsMarket,
+  [MARKET_TYPES.TRIFECTA]: settleTrifectaMarket,
+  [MARKET_TYPES.TOP3]: settleTop3Market,
+  [MARKET_TYPES.H2H]: settleHeadToHeadMarket,
+};
+
+function resultMarket(result) {
+  return result?.market || BET_MODES.POOL;
+}
+
+// Pools first, then the other markets on the same position by key.
+function compareResults(a, b) {
+  const order = (r) => (resultMarket(r) === BET_MODES.POOL ? "" : resultMarket(r));
+  return a.position - b.position || order(a).localeCompare(order(b));
+}
+
+export function settlementKey(masterpieceId, position, market = BET_MODES.POOL) {
+  return market === BET_MODES.POOL ? `${masterpieceId}:${position}` : `${masterpieceId}:${position}:${market}`;
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+// Settles a masterpiece through a persisted journal so that a crash or a failed
+// transaction can be resumed without recomputing payouts or re-applying house and
+// carryover amounts. Each market moves computed → submitted(txHash) → confirmed,
+// or to failed, from where the next run retries it.
+export function createSettlementService({
+  store,
+  persist,
+  fetchMasterpiece,
+  poolContract,
+  provider,
+  tokenContract,
+  buildBetId,
+  normalizeWallet,
+  decimals,
+  ledger,
+  stakersOf = () => [],
+  fetchStakers = async () => [],
+  confirmTimeoutMs = 120_000,
+  logger = console,
+}) {
+  if (!store.settlements) store.settlements = {};
+  if (!store.refunds) store.refunds = {};
+  const inFlight = new Map();
+
+  function marketsFor(masterpieceId) {
+    const extra = new Set();
+    for (const bet of store.bets) {
+      if (bet.masterpieceId === masterpieceId && betMarketType(bet) !== MARKET_TYPES.POSITION) {
+        extra.add(betMarket(bet));
+      }
+    }
+    for (const record of Object.values(store.settlements)) {
+      if (record.masterpieceId === masterpieceId && record.position === SPECIAL_MARKET_POSITION) {
+        if (!MARKETS.some((m) => m.market === record.market)) extra.add(record.market);
+      }
+    }
+    return [
+      ...MARKETS,
+      ...[...extra].sort().map((market) => ({ position: SPECIAL_MARKET_POSITION, market })),
+    ];
+  }
+
+  function getRecords(masterpieceId) {
+    return marketsFor(masterpieceId).map(
+      ({ position, market }) => store.settlements[settlementKey(masterpieceId, position, market)] || null
+    );
+  }
+
+  function updateRecord(record, patch) {
+    Object.assign(record, patch, { updatedAt: nowIso() });
+    if (patch.status === SETTLEMENT_STATUS.CONFIRMED) ledger?.recordSettlement(record);
+    persist();
+  }
+
+  // Marks a bet void and records its refund; the stake is paid back when its market
+  // settles.
+  function voidBet(bet, reason) {
+    const voidedAt = nowIso();
+    Object.assign(bet, { status: BET_STATUS.VOIDED, voidReason: reason, voidedAt });
+    const market = betMarket(bet);
+    store.refunds[bet.id] = {
+      id: bet.id,
+      betId: bet.betId,
+      masterpieceId: bet.masterpieceId,
+      position: bet.position,
+      market,
+      user: bet.user,
+      amount: bet.amount,
+      reason,
+      settlementId: settlementKey(bet.masterpieceId, bet.position, market),
+      createdAt: voidedAt,
+    };
+  }
+
+  function toWei(amount) {
+    return parseUnits(String(amount || 0), decimals).toString();
+  }
+
+  function buildRecord(result) {
+    const market = resultMarket(result);
+    const winners = [];
+    const payoutsWei = [];
+    for (const [user, payout] of Object.entries(result.payouts || {})) {
+      const address = normalizeWallet(user);
+      if (!address) continue;
+      const amount = parseUnits(String(payout), decimals);
+      if (amount <= 0n) continue;
+      winners.push(address);
+      payoutsWei.push(amount.toString());
+    }
+    const createdAt = nowIso();
+    return {
+      id: settlementKey(result.masterpieceId, result.position, market),
+      masterpieceId: result.masterpieceId,
+      position: result.position,
+      market,
+      betId: buildBetId(result.masterpieceId, result.position, market),
+      // Nothing was staked, so there is nothing to move on-chain.
+      status: result.pot === 0 ? SETTLEMENT_STATUS.CONFIRMED : SETTLEMENT_STATUS.COMPUTED,
+      winners,
+      payoutsWei,
+      houseTakeWei: toWei(result.houseTake),
+      carryoverAddedWei: toWei(result.carryover),
+      carryoverNextWei: null,
+      houseTopUpWei: toWei(result.houseTopUp),
+      topUpTxHash: null,
+      txHash: null,
+      blockNumber: null,
+      error: null,
+      attempts: 0,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  }
+
+  async function computeMissing(masterpieceId) {
+    const markets = marketsFor(masterpieceId);
+    const missing = markets.filter(
+      ({ position, market }) => !store.settlements[settlementKey(masterpieceId, position, market)]
+    );
+    if (missing.length === 0) return null;
+
+    // Results written before the journal existed already moved house and carryover;
+    // journal them as-is instead of computing them again.
+    const previous = store.results[masterpieceId];
+    const toCompute = [];
+    for (const entry of missing) {
+      const existing = previous?.results?.find(
+        (r) => r.position === entry.position && resultMarket(r) === entry.market
+      );
+      if (existing) {
+        store.settlements[settlementKey(masterpieceId, entry.position, entry.market)] = buildRecord(existing);
+      } else {
+        toCompute.push(entry);
+      }
+    }
+    if (toCompute.length === 0) {
+      persist();
+      return null;
+    }
+
+    // Payouts come from this leaderboard, so don't settle on a cached copy.
+    const mpJson = await fetchMasterpiece(masterpieceId, { fresh: true });
+    const mp = mpJson?.data?.masterpiece;
+    if (!mp?.leaderboard) return { error: "no leaderboard" };
+
+    const computing = new Set(toCompute.map(({ position, market }) => settlementKey(masterpieceId, position, market)));
+    for (const bet of store.bets) {
+      if (bet.masterpieceId !== masterpieceId || !(bet.amount > 0) || isVoided(bet)) continue;
+      if (!computing.has(settlementKey(masterpieceId, bet.position, betMarket(bet)))) continue;
+      const reason = betVoidReason(bet, mp.leaderboard);
+      if (reason) voidBet(bet, reason);
+    }
+
+    const winnerRows = Object.fromEntries(
+      POSITIONS.map((position) => [position, mp.leaderboard.find((r) => r.position === position)])
+    );
+
+    const computed = toCompute.map(({ position, market }) => {
+      const row = winnerRows[position];
+      const result = SETTLE_BY_MARKET[marketTypeOf(market)]({
+        masterpieceId,
+        position,
+        market,
+        bets: store.bets,
+        leaderboard: mp.leaderboard,
+        winnerUid: row?.profile?.uid,
+        winnerName: row?.profile?.displayName,
+      });
+      return withRefunds(result, store.bets);
+    });
+
+    // Position pools: house keeps half of any pot no-one won; other half carryover. Fixed odds:
+    // the house keeps the margin or pays the top-up. Other pools: the house keeps the pot
+    // if no-one wins. Applied exactly once, when the journal record is created.
+    for (const r of computed) {
+      const houseNet = Number(r.houseTake || 0) - Number(r.houseTopUp || 0);
+      if (houseNet !== 0) {
+        store.house.total += houseNet;
+        store.house.byMasterpiece[masterpieceId] = (store.house.byMasterpiece[masterpieceId] || 0) + houseNet;
+      }
+      if (r.carryover) {
+        store.carryover[String(r.position)] = (store.carryover[String(r.position)] || 0) + r.carryover;
+      }
+      store.settlements[settlementKey(masterpieceId, r.position, resultMarket(r))] = buildRecord(r);
+    }
+
+    const results = [...(previous?.results || []), ...computed].sort(compareResults);
+    // Pool results name every player in a dead heat.
+    const winnerName = (position) =>
+      results.find((r) => r.position === position && resultMarket(r) === BET_MODES.POOL)?.winnerName ??
+      winnerRows[position]?.profile?.displayName ??
+      null;
+    store.results[masterpieceId] = {
+      settledAt: previous?.settledAt || nowIso(),
+      masterpieceName: mp.name,
+      winners: { 1: winnerName(1), 2: winnerName(2), 3: winnerName(3) },
+      results,
+    };
+
+    persist();
+    return null;
+  }
+
+  async function waitForReceipt(txHash) {
+    try {
+      return await provider.waitForTransaction(txHash, 1, confirmTimeoutMs);
+    } catch (e) {
+      if (e?.code !== "TIMEOUT") throw e;
+      return null;
+    }
+  }
+
+  // Stakes in the pool the record doesn't account for: ones placed on-chain that were
+  // never recorded (a bet that was never posted, or whose amount didn't match) and bets
+  // refused after the record was computed. `settleMarket` only accepts payouts that add
+  // up to `totalPools`, so each staker is paid the difference back in the same call.
+  // Stakers are the market's bettors and `stakersOf(betId)`; when those don't cover the
+  // pool (the indexer is off or behind), `fetchStakers(betId)` reads them from the
+  // market's BetPlaced logs. A balance no staker accounts for fails the settlement so an
+  // operator can look at it. Runs once, before any house top-up.
+  async function coverUnrecorded(record) {
+    const required =
+      record.payoutsWei.reduce((sum, amount) => sum + BigInt(amount), 0n) +
+      BigInt(record.houseTakeWei) +
+      BigInt(record.carryoverAddedWei) -
+      BigInt(record.houseTopUpWei || 0);
+    const excess = BigInt(await poolContract.getPool(record.betId)) - required;
+    if (excess <= 0n) {
+      updateRecord(record, { unrecordedCheckedAt: nowIso() });
+      return;
+    }
+
+    // Everything each wallet staked in the market, and the part the record paid out.
+    const recorded = new Map();
+    const accounted = new Map();
+    for (const bet of store.bets) {
+      if (bet.masterpieceId !== record.masterpieceId || bet.position !== record.position || !(bet.amount > 0)) continue;
+      if (betMarket(bet) !== record.market) continue;
+      const address = normalizeWallet(bet.user);
+      if (!address) continue;
+      const wei = parseUnits(String(bet.amount), decimals);
+      recorded.set(address, (recorded.get(address) || 0n) + wei);
+      if (bet.createdAt <= record.createdAt) accounted.set(address, (accounted.get(address) || 0n) + wei);
+    }
+    const stakers = [...recorded.keys(), ...stakersOf(record.betId)];
+
+    const winners = [...record.winners];
+    const payoutsWei = [...record.payoutsWei];
+    const unrecordedStakes = [];
+    const checked = new Set();
+    let left = excess;
+    const cover = async (addresses) => {
+      for (const address of [...new Set(addresses.map(normalizeWallet).filter(Boolean))].sort()) {
+        if (left <= 0n) return;
+        if (checked.has(address)) continue;
+        checked.add(address);
+        const onChainWei = BigInt(await poolContract.stakes(record.betId, address));
+        let owed = onChainWei - (accounted.get(address) || 0n);
+        if (owed <= 0n) continue;
+        if (owed > left) owed = left;
+        left -= owed;
+        const index = winners.indexOf(address);
+        if (index === -1) {
+          winners.push(address);
+          payoutsWei.push(owed.toString());
+        } else {
+          payoutsWei[index] = (BigInt(payoutsWei[index]) + owed).toString();
+        }
+        const unrecordedWei = onChainWei - (recorded.get(address) || 0n);
+        if (unrecordedWei > 0n) {
+          unrecordedStakes.push({
+            user: address,
+            amountWei: (unrecordedWei < owed ? unrecordedWei : owed).toString(),
+          });
+        }
+      }
+    };
+    await cover(stakers);
+    if (left > 0n) await cover(await fetchStakers(record.betId));
+    if (left > 0n) {
+      const unknown = formatUnits(left, decimals);
+      throw new Error(`${unknown} DYNW in the pool has no staker on record; settlement held for review`);
+    }
+
+    for (const { user, amountWei } of unrecordedStakes) {
+      const id = `unrecorded:${record.id}:${user}`;
+      store.refunds[id] = {
+        id,
+        betId: record.betId,
+        masterpieceId: record.masterpieceId,
+        position: record.position,
+        market: record.market,
+        user,
+        amount: Number(formatUnits(amountWei, decimals)),
+        amountWei,
+        reason: "stake placed on-chain but never recorded",
+        settlementId: record.id,
+        createdAt: nowIso(),
+      };
+    }
+    updateRecord(record, { winners, payoutsWei, unrecordedStakes, unrecordedCheckedAt: nowIso() });
+    ledger?.recordUnrecorded(record);
+  }
+
+  // Fixed-odds payouts can exceed the stakes; the operator stakes the difference into
+  // the market before settling it. Returns false while an earlier top-up is pending.
+  async function topUp(record) {
+    if (record.topUpTxHash) {
+      const receipt = await waitForReceipt(record.topUpTxHash);
+      if (!receipt && (await provider.getTransaction(record.topUpTxHash))) return false;
+    }
+
+    const required =
+      record.payoutsWei.reduce((sum, amount) => sum + BigInt(amount), 0n) + BigInt(record.houseTakeWei);
+    const shortfall = required - BigInt(await poolContract.getPool(record.betId));
+    if (shortfall <= 0n) return true;
+    if (!tokenContract) throw new Error("DYNW_TOKEN_ADDRESS not configured for house top-ups");
+
+    const spender = await poolContract.getAddress();
+    const owner = await tokenContract.runner.getAddress();
+    if (BigInt(await tokenContract.allowance(owner, spender)) < shortfall) {
+      await (await tokenContract.approve(spender, shortfall)).wait();
+    }
+    const tx = await poolContract.placeBet(record.betId, record.position, shortfall);
+    updateRecord(record, { topUpTxHash: tx.hash });
+    const receipt = await tx.wait();
+    if (receipt?.status !== 1) throw new Error("house top-up transaction reverted");
+    ledger?.recordTopUp(record, shortfall);
+    return true;
+  }
+
+  async function awaitReceipt(record) {
+    const receipt = await waitForReceipt(record.txHash);
+    if (!receipt) {
+      // Still pending: the next run picks it up again, unless the node no longer knows it.
+      if (!(await provider.getTransaction(record.txHash))) {
+        updateRecord(record, { status: SETTLEMENT_STATUS.FAILED, error: "settlement transaction dropped" });
+      }
+      return;
+    }
+    if (receipt.status === 1) {
+      updateRecord(record, {
+        status: SETTLEMENT_STATUS.CONFIRMED,
+        blockNumber: receipt.blockNumber,
+        error: null,
+      });
+    } else {
+      updateRecord(record, { status: SETTLEMENT_STATUS.FAILED, error: "settlement transaction reverted" });
+    }
+  }
+
+  async function submit(record) {
+    // A previous run may have landed the transaction without recording it.
+    if (await poolContract.settled(record.betId)) {
+      updateRecord(record, { status: SETTLEMENT_STATUS.CONFIRMED, error: null });
+      return;
+    }
+
+    if (!record.unrecordedCheckedAt && !record.topUpTxHash) await coverUnrecorded(record);
+    if (BigInt(record.houseTopUpWei || 0) > 0n && !(await topUp(record))) return;
+
+    const carryoverNow = BigInt(await poolContract.carryoverByPosition(record.position));
+    const carryoverNext = carryoverNow + BigInt(record.carryoverAddedWei);
+    const tx = await poolContract.settleMarket(
+      record.betId,
+      record.position,
+      record.winners,
+      record.payoutsWei.map((amount) => BigInt(amount)),
+      BigInt(record.houseTakeWei),
+      carryoverNext,
+    );
+    updateRecord(record, {
+      status: SETTLEMENT_STATUS.SUBMITTED,
+      txHash: tx.hash,
+      carryoverNextWei: carryoverNext.toString(),
+      attempts: Number(record.attempts || 0) + 1,
+      error: null,
+    });
+    await awaitReceipt(record);
+  }
+
+  async function advance(record) {
+    if (record.status === SETTLEMENT_STATUS.CONFIRMED && (record.txHash || record.unrecordedCheckedAt)) return;
+    try {
+      if (record.status === SETTLEMENT_STATUS.CONFIRMED) {
+        // Journaled without a transaction because no bet was recorded; the pool may
+        // still hold stakes that never were.
+        if (BigInt(await poolContract.getPool(record.betId)) === 0n) {
+          updateRecord(record, { unrecordedCheckedAt: nowIso() });
+          return;
+        }
+        updateRecord(record, { status: SETTLEMENT_STATUS.COMPUTED });
+      }
+      if (record.status === SETTLEMENT_STATUS.SUBMITTED && record.txHash) {
+        await awaitReceipt(record);
+      } else {
+        await submit(record);
+      }
+    } catch (e) {
+      logger?.error?.("Settlement failed", record.id, e);
+      updateRecord(record, { status: SETTLEMENT_STATUS.FAILED, error: e?.shortMessage || e?.message || String(e) });
+    }
+  }
+
+  async function runSettlement(masterpieceId) {
+    const computeError = await computeMissing(masterpieceId);
+    if (computeError) return computeError;
+
+    for (const record of getRecords(masterpieceId)) {
+      if (record) await advance(record);
+    }
+    return getSettlementStatus(masterpieceId);
+  }
+
+  // Voids every bet on the masterpiece and journals each market as a refund. Once
+  // journaled, settleMasterpiece resumes it like any other settlement.
+  function journalVoid(masterpieceId, reason) {
+    const previous = store.results[masterpieceId];
+    if (previous?.results?.some((r) => r.status !== BET_STATUS.VOIDED)) {
+      return { error: "masterpiece is already settled" };
+    }
+    if (previous) return null;
+
+    for (const bet of store.bets) {
+      if (bet.masterpieceId === masterpieceId && bet.amount > 0 && !isVoided(bet)) voidBet(bet, reason);
+    }
+    const results = marketsFor(masterpieceId).map(({ position, market }) =>
+      voidMarket({ masterpieceId, position, market, bets: store.bets, reason })
+    );
+    for (const r of results) {
+      store.settlements[settlementKey(masterpieceId, r.position, resultMarket(r))] = buildRecord(r);
+    }
+    store.results[masterpieceId] = {
+      settledAt: nowIso(),
+      masterpieceName: null,
+      winners: { 1: null, 2: null, 3: null },
+      results: results.sort(compareResults),
+    };
+    persist();
+    return null;
+  }
+
+  async function runVoid(masterpieceId, reason) {
+    const voidError = journalVoid(masterpieceId, reason);
+    if (voidError) return voidError;
+
+    for (const record of getRecords(masterpieceId)) {
+      if (record) await advance(record);
+    }
+    return getSettlementStatus(masterpieceId);
+  }
+
+  // Concurrent calls for the same masterpiece share one run.
+  function runOnce(masterpieceId, start) {
+    if (!poolContract) {
+      return Promise.resolve({ error: "MASTERPIECE_POOL_ADDRESS or OPERATOR_PRIVATE_KEY not configured" });
+    }
+    if (inFlight.has(masterpieceId)) return inFlight.get(masterpieceId);
+    const run = start().finally(() => inFlight.delete(masterpieceId));
+    inFlight.set(masterpieceId, run);
+    return run;
+  }
+
+  function settleMasterpiece(masterpieceId) {
+    return runOnce(masterpieceId, () => runSettlement(masterpieceId));
+  }
+
+  function voidMasterpiece(masterpieceId, reason) {
+    return runOnce(masterpieceId, () => runVoid(masterpieceId, reason));
+  }
+
+  function getSettlementStatus(masterpieceId) {
+    const markets = marketsFor(masterpieceId);
+    const positions = getRecords(masterpieceId).map((record, index) => record || { ...markets[index], status: null });
+    const started = positions.some((record) => record.status);
+    return {
+      masterpieceId,
+      status: !started
+        ? "pending"
+        : positions.every((record) => record.status === SETTLEMENT_STATUS.CONFIRMED)
+          ? SETTLEMENT_STATUS.CONFIRMED
+          : positions.some((record) => record.status === SETTLEMENT_STATUS.FAILED)
+            ? SETTLEMENT_STATUS.FAILED
+            : "in_progress",
+      inFlight: inFlight.has(masterpieceId),
+      positions,
+    };
+  }
+
+  return { settleMasterpiece, voidMasterpiece, getSettlementStatus, voidBet };
+}
@@ -0,0 +1,653 @@
+// server/store.js
+//
+// Prisma-backed replacement for the JSON files written by `makeStore`. The routes keep
+// working against the same in-memory `store` shape; `persist()` only upserts the
+// records written to since the last call.
+
+function toDate(value) {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.valueOf()) ? new Date() : date;
+}
+
+function toIso(value) {
+  return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+// Money columns are Decimal; the in-memory store works in plain numbers.
+function toAmount(value) {
+  return value === null || value === undefined ? 0 : Number(value);
+}
+
+function betToRow(bet) {
+  return {
+    id: String(bet.id),
+    betId: String(bet.betId || ""),
+    user: String(bet.user || bet.loginAddress || ""),
+    userId: bet.userId ?? null,
+    loginAddress: String(bet.loginAddress || bet.user || ""),
+    masterpieceId: Number(bet.masterpieceId),
+    position: Number(bet.position),
+    pickedUid: bet.pickedUid ?? null,
+    pickedName: bet.pickedName ?? null,
+    amount: Number(bet.amount || 0),
+    wagerAmount: Number(bet.wagerAmount ?? bet.amount ?? 0),
+    txHash: bet.txHash ?? null,
+    blockNumber: Number.isInteger(bet.blockNumber) ? bet.blockNumber : null,
+    futureBet: Boolean(bet.futureBet),
+    mode: String(bet.mode || "pool"),
+    odds: Number.isFinite(bet.odds) ? bet.odds : null,
+    marketType: String(bet.marketType || "position"),
+    picks: Array.isArray(bet.picks) ? bet.picks : undefined,
+    opponentUid: bet.opponentUid ?? null,
+    opponentName: bet.opponentName ?? null,
+    status: String(bet.status || "ACTIVE"),
+    voidReason: bet.voidReason ?? null,
+    voidedAt: bet.voidedAt ? toDate(bet.voidedAt) : null,
+    createdAt: toDate(bet.createdAt),
+  };
+}
+
+function rowToBet(row) {
+  return {
+    id: row.id,
+    betId: row.betId,
+    user: row.user,
+    userId: row.userId,
+    loginAddress: row.loginAddress,
+    masterpieceId: row.masterpieceId,
+    position: row.position,
+    pickedUid: row.pickedUid,
+    pickedName: row.pickedName,
+    amount: toAmount(row.amount),
+    wagerAmount: toAmount(row.wagerAmount),
+    txHash: row.txHash,
+    blockNumber: row.blockNumber,
+    createdAt: toIso(row.createdAt),
+    futureBet: row.futureBet,
+    mode: row.mode,
+    odds: row.odds ?? undefined,
+    marketType: row.marketType,
+    ...(Array.isArray(row.picks) ? { picks: row.picks } : {}),
+    ...(row.opponentUid ? { opponentUid: row.opponentUid, opponentName: row.opponentName } : {}),
+    ...(row.status === "VOIDED" ? { status: row.status, voidReason: row.voidReason, voidedAt: toIso(row.voidedAt) } : {}),
+  };
+}
+
+function resultToRows(masterpieceId, entry) {
+  return (entry?.results || []).map((r) => ({
+    row: {
+      masterpieceId: Number(masterpieceId),
+      position: Number(r.position),
+      market: String(r.market || "pool"),
+      masterpieceName: entry.masterpieceName ?? null,
+      settledAt: toDate(entry.settledAt),
+      pot: Number(r.pot || 0),
+      status: String(r.status),
+      winnerUid: r.winnerUid ?? null,
+      winnerName: r.winnerName ?? null,
+      houseTake: Number(r.houseTake || 0),
+      houseTopUp: Number(r.houseTopUp || 0),
+      carryover: Number(r.carryover || 0),
+      refunded: Number(r.refunded || 0),
+      voidReason: r.voidReason ?? null,
+      deadHeat: Array.isArray(r.deadHeat) ? r.deadHeat : undefined,
+    },
+    payouts: Object.entries(r.payouts || {}).map(([user, amount]) => ({ user, amount: Number(amount) })),
+  }));
+}
+
+function rowsToResults(rows) {
+  const results = {};
+  const marketOrder = (row) => (!row.market || row.market === "pool" ? "" : row.market);
+  const sorted = [...rows].sort(
+    (a, b) =>
+      a.masterpieceId - b.masterpieceId ||
+      a.position - b.position ||
+      marketOrder(a).localeCompare(marketOrder(b))
+  );
+  for (const row of sorted) {
+    const key = String(row.masterpieceId);
+    if (!results[key]) {
+      results[key] = {
+        settledAt: toIso(row.settledAt),
+        masterpieceName: row.masterpieceName,
+        winners: { 1: null, 2: null, 3: null },
+        results: [],
+      };
+    }
+    const entry = results[key];
+    const isPool = !row.market || row.market === "pool";
+    if (isPool) entry.winners[row.position] = row.winnerName ?? null;
+    entry.results.push({
+      masterpieceId: row.masterpieceId,
+      position: row.position,
+      ...(isPool ? {} : { market: row.market }),
+      pot: toAmount(row.pot),
+      winnerUid: row.winnerUid ?? undefined,
+      winnerName: row.winnerName ?? undefined,
+      status: row.status,
+      houseTake: toAmount(row.houseTake),
+      ...(toAmount(row.houseTopUp) ? { houseTopUp: toAmount(row.houseTopUp) } : {}),
+      carryover: toAmount(row.carryover),
+      ...(toAmount(row.refunded) ? { refunded: toAmount(row.refunded) } : {}),
+      ...(row.voidReason ? { voidReason: row.voidReason } : {}),
+      ...(Array.isArray(row.deadHeat) ? { deadHeat: row.deadHeat } : {}),
+      payouts: Object.fromEntries((row.payouts || []).map((p) => [p.user, toAmount(p.amount)])),
+    });
+  }
+  return results;
+}
+
+function walletToRow(record) {
+  return {
+    address: record.address,
+    firstSeenAt: toDate(record.firstSeenAt),
+    lastSeenAt: toDate(record.lastSeenAt),
+    balance: Number(record.balance || 0),
+  };
+}
+
+function ledgerEntryToRow(address, entry) {
+  const { id, amount, createdAt, ...data } = entry;
+  return {
+    id: String(id),
+    walletAddress: address,
+    amount: Number(amount || 0),
+    data: Object.keys(data).length ? data : undefined,
+    createdAt: toDate(createdAt),
+  };
+}
+
+// Collections kept as `{ [id]: record }` maps on the store and mirrored one row per record.
+const KEYED_COLLECTIONS = [
+  {
+    name: "settlements",
+    model: "settlement",
+    toRow: (record) => ({
+      id: String(record.id),
+      masterpieceId: Number(record.masterpieceId),
+      position: Number(record.position),
+      market: String(record.market || "pool"),
+      betId: String(record.betId),
+      status: String(record.status),
+      winners: record.winners || [],
+      payoutsWei: record.payoutsWei || [],
+      houseTakeWei: String(record.houseTakeWei || "0"),
+      carryoverAddedWei: String(record.carryoverAddedWei || "0"),
+      carryoverNextWei: record.carryoverNextWei ?? null,
+      houseTopUpWei: String(record.houseTopUpWei || "0"),
+      topUpTxHash: record.topUpTxHash ?? null,
+      unrecordedStakes: record.unrecordedStakes ?? undefined,
+      unrecordedCheckedAt: record.unrecordedCheckedAt ? toDate(record.unrecordedCheckedAt) : null,
+      txHash: record.txHash ?? null,
+      blockNumber: Number.isInteger(record.blockNumber) ? record.blockNumber : null,
+      error: record.error ?? null,
+      attempts: Number(record.attempts || 0),
+      createdAt: toDate(record.createdAt),
+      updatedAt: toDate(record.updatedAt),
+    }),
+    fromRow: (row) => ({
+      ...row,
+      winners: Array.isArray(row.winners) ? row.winners : [],
+      payoutsWei: Array.isArray(row.payoutsWei) ? row.payoutsWei : [],
+      unrecordedStakes: Array.isArray(row.unrecordedStakes) ? row.unrecordedStakes : [],
+      unrecordedCheckedAt: row.unrecordedCheckedAt ? toIso(row.unrecordedCheckedAt) : null,
+      createdAt: toIso(row.createdAt),
+      updatedAt: toIso(row.updatedAt),
+    }),
+  },
+  {
+    name: "markets",
+    model: "market",
+    toRow: (record) => ({
+      id: String(record.id),
+      masterpieceId: Number(record.masterpieceId),
+      state: String(record.state),
+      collectedPoints: Number.isFinite(record.collectedPoints) ? record.collectedPoints : null,
+      requiredPoints: Number.isFinite(record.requiredPoints) ? record.requiredPoints : null,
+      startedAt: record.startedAt ? toDate(record.startedAt) : null,
+      closedAt: record.closedAt ? toDate(record.closedAt) : null,
+      closeReason: record.closeReason ?? null,
+      suspendedAt: record.suspendedAt ? toDate(record.suspendedAt) : null,
+      suspendReason: record.suspendReason ?? null,
+      cutoffPercent: Number.isFinite(record.cutoffPercent) ? record.cutoffPercent : null,
+      cutoffMinutes: Number.isFinite(record.cutoffMinutes) ? record.cutoffMinutes : null,
+      finishedAt: record.finishedAt ? toDate(record.finishedAt) : null,
+      voidReason: record.voidReason ?? null,
+      voidedAt: record.voidedAt ? toDate(record.voidedAt) : null,
+      futures: Boolean(record.futures),
+      futuresName: record.futuresName ?? null,
+      players: Array.isArray(record.players) ? record.players : undefined,
+      opensAt: record.opensAt ? toDate(record.opensAt) : null,
+      closesAt: record.closesAt ? toDate(record.closesAt) : null,
+      startDeadline: record.startDeadline ? toDate(record.startDeadline) : null,
+      wentLiveAt: record.wentLiveAt ? toDate(record.wentLiveAt) : null,
+      settleAfter: record.settleAfter ? toDate(record.settleAfter) : null,
+      settledAt: record.settledAt ? toDate(record.settledAt) : null,
+      lastError: record.lastError ?? null,
+      createdAt: toDate(record.createdAt),
+      updatedAt: toDate(record.updatedAt),
+    }),
+    fromRow: (row) => ({
+      ...row,
+      startedAt: toIso(row.startedAt),
+      closedAt: toIso(row.closedAt),
+      suspendedAt: toIso(row.suspendedAt),
+      finishedAt: toIso(row.finishedAt),
+      voidedAt: toIso(row.voidedAt),
+      players: Array.isArray(row.players) ? row.players : null,
+      opensAt: toIso(row.opensAt),
+      closesAt: toIso(row.closesAt),
+      startDeadline: toIso(row.startDeadline),
+      wentLiveAt: toIso(row.wentLiveAt),
+      settleAfter: toIso(row.settleAfter),
+      settledAt: toIso(row.settledAt),
+      createdAt: toIso(row.createdAt),
+      updatedAt: toIso(row.updatedAt),
+    }),
+  },
+  {
+    name: "refunds",
+    model: "refund",
+    toRow: (record) => ({
+      id: String(record.id),
+      betId: String(record.betId || ""),
+      masterpieceId: Number(record.masterpieceId),
+      position: Number(record.position),
+      market: String(record.market || "pool"),
+      user: String(record.user || ""),
+      amount: Number(record.amount || 0),
+      amountWei: record.amountWei ?? null,
+      reason: String(record.reason || ""),
+      settlementId: record.settlementId ?? null,
+      createdAt: toDate(record.createdAt),
+    }),
+    fromRow: (row) => ({ ...row, amount: toAmount(row.amount), createdAt: toIso(row.createdAt) }),
+  },
+  {
+    name: "ledgerEntries",
+    model: "ledgerEntry",
+    toRow: (record) => ({
+      id: String(record.id),
+      type: String(record.type),
+      fromAccount: String(record.fromAccount),
+      toAccount: String(record.toAccount),
+      amount: Number(record.amount || 0),
+      amountWei: String(record.amountWei || "0"),
+      masterpieceId: Number.isInteger(record.masterpieceId) ? record.masterpieceId : null,
+      position: Number.isInteger(record.position) ? record.position : null,
+      market: record.market ?? null,
+      betId: record.betId ?? null,
+      createdAt: toDate(record.createdAt),
+    }),
+    fromRow: (row) => ({ ...row, amount: toAmount(row.amount), createdAt: toIso(row.createdAt) }),
+  },
+  {
+    name: "chainEvents",
+    model: "chainEvent",
+    toRow: (record) => ({
+      id: String(record.id),
+      contract: String(record.contract),
+      address: String(record.address),
+      event: String(record.event),
+      user: record.user ?? null,
+      betId: record.betId ?? null,
+      args: record.args || {},
+      blockNumber: Number(record.blockNumber),
+      blockHash: String(record.blockHash),
+      txHash: String(record.txHash),
+      logIndex: Number(record.logIndex),
+      removed: Boolean(record.removed),
+      createdAt: toDate(record.createdAt),
+    }),
+    fromRow: (row) => ({ ...row, createdAt: toIso(row.createdAt) }),
+  },
+  {
+    name: "indexerCheckpoints",
+    model: "indexerCheckpoint",
+    toRow: (record) => ({
+      id: String(record.id),
+      blockNumber: Number(record.blockNumber),
+      blockHash: record.blockHash ?? null,
+      updatedAt: toDate(record.updatedAt),
+    }),
+    fromRow: (row) => ({ ...row, updatedAt: toIso(row.updatedAt) }),
+  },
+  {
+    name: "masterpieceSnapshots",
+    model: "masterpieceSnapshot",
+    toRow: (record) => ({
+      id: String(record.id),
+      masterpieceId: Number(record.masterpieceId),
+      finished: Boolean(record.finished),
+      finishedAt: record.finishedAt ? toDate(record.finishedAt) : null,
+      data: record.data || {},
+      fetchedAt: toDate(record.fetchedAt),
+    }),
+    fromRow: (row) => ({ ...row, finishedAt: toIso(row.finishedAt), fetchedAt: toIso(row.fetchedAt) }),
+  },
+];
+
+function houseTotals(entries) {
+  const house = { total: 0, byMasterpiece: {} };
+  for (const entry of entries) {
+    const amount = toAmount(entry.amount);
+    house.total += amount;
+    if (entry.masterpieceId !== null && entry.masterpieceId !== undefined) {
+      const key = String(entry.masterpieceId);
+      house.byMasterpiece[key] = (house.byMasterpiece[key] || 0) + amount;
+    }
+  }
+  return house;
+}
+
+export async function loadStoreData(prisma) {
+  const [bets, marketResults, carryovers, houseEntries, wallets, ledgerEntries] = await Promise.all([
+    prisma.bet.findMany({ orderBy: { createdAt: "asc" } }),
+    prisma.marketResult.findMany({ include: { payouts: true } }),
+    prisma.carryover.findMany(),
+    prisma.houseEntry.findMany(),
+    prisma.wallet.findMany(),
+    prisma.walletLedgerEntry.findMany({ orderBy: { createdAt: "asc" } }),
+  ]);
+
+  const carryover = { "1": 0, "2": 0, "3": 0 };
+  for (const row of carryovers) carryover[row.key] = toAmount(row.amount);
+
+  const ledgerByWallet = new Map();
+  for (const row of ledgerEntries) {
+    if (!ledgerByWallet.has(row.walletAddress)) ledgerByWallet.set(row.walletAddress, []);
+    ledgerByWallet.get(row.walletAddress).push({
+      id: row.id,
+      createdAt: toIso(row.createdAt),
+      amount: toAmount(row.amount),
+      ...(row.data || {}),
+    });
+  }
+
+  const keyed = {};
+  for (const collection of KEYED_COLLECTIONS) {
+    const rows = await prisma[collection.model].findMany();
+    keyed[collection.name] = Object.fromEntries(rows.map((row) => [row.id, collection.fromRow(row)]));
+  }
+
+  const storeBets = bets.map(rowToBet);
+  const walletRecords = {};
+  for (const row of wallets) {
+    walletRecords[row.address] = {
+      address: row.address,
+      firstSeenAt: toIso(row.firstSeenAt),
+      lastSeenAt: toIso(row.lastSeenAt),
+      betIds: storeBets.filter((b) => b.loginAddress === row.address).map((b) => b.id),
+      balance: toAmount(row.balance),
+      // Legacy per-wallet history from the JSON store, capped in memory; older entries
+      // stay in the table. Balances come from the double-entry ledger instead.
+      ledger: (ledgerByWallet.get(row.address) || []).slice(-100),
+    };
+  }
+
+  return {
+    bets: storeBets,
+    results: rowsToResults(marketResults),
+    carryover,
+    house: houseTotals(houseEntries),
+    wallets: walletRecords,
+    ...keyed,
+  };
+}
+
+// Collects the records each write touches so `persist()` only serializes those. The
+// store's collections are wrapped in proxies: assigning or pushing a record marks it,
+// and records read back through a collection come wrapped as well, so in-place updates
+// (`Object.assign(record, patch)`) mark it too. Objects nested inside a record aren't
+// watched; replace them rather than mutating them.
+function createDirtyTracker() {
+  const dirty = {
+    bets: new Map(),
+    results: new Set(),
+    wallets: new Set(),
+    keyed: Object.fromEntries(KEYED_COLLECTIONS.map((collection) => [collection.name, new Set()])),
+  };
+  const wrapped = new WeakMap();
+
+  function isRecord(target, key, value) {
+    return typeof key === "string" && Object.hasOwn(target, key) && value !== null && typeof value === "object";
+  }
+
+  function trackRecord(record, mark) {
+    if (!wrapped.has(record)) {
+      wrapped.set(
+        record,
+        new Proxy(record, {
+          set(target, key, value) {
+            Reflect.set(target, key, value);
+            mark(target);
+            return true;
+          },
+          deleteProperty(target, key) {
+            Reflect.deleteProperty(target, key);
+            mark(target);
+            return true;
+          },
+        })
+      );
+    }
+    return wrapped.get(record);
+  }
+
+  // `{ [key]: record }` maps, marked by key.
+  function trackMap(map, keys) {
+    return new Proxy(map, {
+      get(target, key, receiver) {
+        const value = Reflect.get(target, key, receiver);
+        return isRecord(target, key, value) ? trackRecord(value, () => keys.add(key)) : value;
+      },
+      set(target, key, value) {
+        Reflect.set(target, key, value);
+        keys.add(key);
+        return true;
+      },
+      deleteProperty(target, key) {
+        Reflect.deleteProperty(target, key);
+        keys.add(key);
+        return true;
+      },
+    });
+  }
+
+  // The bets array, marked by bet id.
+  function trackBets(bets) {
+    const mark = (bet) => dirty.bets.set(String(bet.id), bet);
+    return new Proxy(bets, {
+      get(target, key, receiver) {
+        const value = Reflect.get(target, key, receiver);
+        return isRecord(target, key, value) ? trackRecord(value, mark) : value;
+      },
+      set(target, key, value) {
+        Reflect.set(target, key, value);
+        if (isRecord(target, key, value)) mark(value);
+        return true;
+      },
+    });
+  }
+
+  function track(store) {
+    return {
+      ...store,
+      bets: trackBets(store.bets),
+      results: trackMap(store.results, dirty.results),
+      wallets: trackMap(store.wallets, dirty.wallets),
+      ...Object.fromEntries(
+        KEYED_COLLECTIONS.map(({ name }) => [name, trackMap(store[name] || {}, dirty.keyed[name])])
+      ),
+    };
+  }
+
+  return { dirty, track };
+}
+
+// Carryover and house totals are small and compared on every `persist()`; the legacy
+// wallet ledger entries already in the table are remembered by id.
+function createSyncState(store) {
+  const sync = {
+    carryover: new Map(),
+    house: { total: Number(store.house.total || 0), byMasterpiece: { ...store.house.byMasterpiece } },
+    ledgerIds: new Set(),
+  };
+  for (const [key, amount] of Object.entries(store.carryover)) sync.carryover.set(key, Number(amount || 0));
+  for (const record of Object.values(store.wallets)) {
+    for (const entry of record.ledger || []) sync.ledgerIds.add(String(entry.id));
+  }
+  return sync;
+}
+
+function collectChanges({ dirty }, sync, store) {
+  const changes = { bets: [], results: [], carryover: [], house: [], wallets: [], ledger: [], keyed: [] };
+
+  for (const bet of dirty.bets.values()) changes.bets.push(betToRow(bet));
+  dirty.bets.clear();
+
+  for (const mpId of dirty.results) {
+    const entry = store.results[mpId];
+    if (entry) changes.results.push({ masterpieceId: mpId, rows: resultToRows(mpId, entry) });
+  }
+  dirty.results.clear();
+
+  for (const [key, value] of Object.entries(store.carryover || {})) {
+    const amount = Number(value || 0);
+    if (sync.carryover.get(key) === amount) continue;
+    changes.carryover.push({ key, amount });
+    sync.carryover.set(key, amount);
+  }
+
+  // House totals are only ever incremented, so they are written as delta entries.
+  const byMasterpiece = store.house?.byMasterpiece || {};
+  let attributed = 0;
+  for (const [mpId, value] of Object.entries(byMasterpiece)) {
+    const delta = Number(value || 0) - Number(sync.house.byMasterpiece[mpId] || 0);
+    if (delta === 0) continue;
+    changes.house.push({ masterpieceId: Number(mpId), amount: delta });
+    attributed += delta;
+    sync.house.byMasterpiece[mpId] = Number(value || 0);
+  }
+  const totalDelta = Number(store.house?.total || 0) - sync.house.total - attributed;
+  if (totalDelta !== 0) changes.house.push({ masterpieceId: null, amount: totalDelta });
+  sync.house.total = Number(store.house?.total || 0);
+
+  for (const key of dirty.wallets) {
+    const record = store.wallets[key];
+    if (!record?.address) continue;
+    changes.wallets.push({ key, row: walletToRow(record) });
+    for (const entry of record.ledger || []) {
+      if (sync.ledgerIds.has(String(entry.id))) continue;
+      changes.ledger.push(ledgerEntryToRow(record.address, entry));
+      sync.ledgerIds.add(String(entry.id));
+    }
+  }
+  dirty.wallets.clear();
+
+  for (const collection of KEYED_COLLECTIONS) {
+    const keys = dirty.keyed[collection.name];
+    for (const key of keys) {
+      const record = store[collection.name][key];
+      if (record) changes.keyed.push({ collection, key, row: collection.toRow(record) });
+    }
+    keys.clear();
+  }
+
+  return changes;
+}
+
+// Mark a failed batch dirty again so the next `persist()` picks the same records up.
+function unmarkChanges({ dirty }, sync, store, changes) {
+  const failedBets = new Set(changes.bets.map((row) => row.id));
+  for (const bet of store.bets) {
+    if (failedBets.has(String(bet.id))) dirty.bets.set(String(bet.id), bet);
+  }
+  for (const { masterpieceId } of changes.results) dirty.results.add(String(masterpieceId));
+  for (const { key } of changes.carryover) sync.carryover.delete(key);
+  for (const entry of changes.house) {
+    sync.house.total -= entry.amount;
+    if (entry.masterpieceId !== null) {
+      const key = String(entry.masterpieceId);
+      sync.house.byMasterpiece[key] = Number(sync.house.byMasterpiece[key] || 0) - entry.amount;
+    }
+  }
+  for (const { key } of changes.wallets) dirty.wallets.add(key);
+  for (const row of changes.ledger) sync.ledgerIds.delete(row.id);
+  for (const { collection, key } of changes.keyed) dirty.keyed[collection.name].add(key);
+}
+
+function hasChanges(changes) {
+  return Object.values(changes).some((list) => list.length > 0);
+}
+
+async function writeChanges(prisma, changes) {
+  const ops = [];
+  for (const row of changes.bets) {
+    ops.push(prisma.bet.upsert({ where: { id: row.id }, create: row, update: row }));
+  }
+  for (const { masterpieceId, rows } of changes.results) {
+    for (const { row, payouts } of rows) {
+      const where = {
+        masterpieceId_position_market: {
+          masterpieceId: Number(masterpieceId),
+          position: row.position,
+          market: row.market,
+        },
+      };
+      ops.push(
+        prisma.marketResult.upsert({
+          where,
+          create: { ...row, payouts: { create: payouts } },
+          update: { ...row, payouts: { deleteMany: {}, create: payouts } },
+        })
+      );
+    }
+  }
+  for (const { key, amount } of changes.carryover) {
+    ops.push(prisma.carryover.upsert({ where: { key }, create: { key, amount }, update: { amount } }));
+  }
+  if (changes.house.length) {
+    ops.push(prisma.houseEntry.createMany({ data: changes.house }));
+  }
+  for (const { row } of changes.wallets) {
+    ops.push(prisma.wallet.upsert({ where: { address: row.address }, create: row, update: row }));
+  }
+  for (const row of changes.ledger) {
+    ops.push(prisma.walletLedgerEntry.upsert({ where: { id: row.id }, create: row, update: {} }));
+  }
+  for (const { collection, row } of changes.keyed) {
+    ops.push(prisma[collection.model].upsert({ where: { id: row.id }, create: row, update: row }));
+  }
+  await prisma.$transaction(ops);
+}
+
+export async function createPrismaStore(prisma, { logger = console } = {}) {
+  const data = await loadStoreData(prisma);
+  const tracker = createDirtyTracker();
+  const store = tracker.track(data);
+  const sync = createSyncState(data);
+
+  let queue = Promise.resolve();
+
+  // Changes are captured synchronously so later mutations land in the next batch;
+  // writes are chained so batches reach the database in order.
+  function persist() {
+    const changes = collectChanges(tracker, sync, store);
+    if (!hasChanges(changes)) return queue;
+    queue = queue
+      .then(() => writeChanges(prisma, changes))
+      .catch((e) => {
+        unmarkChanges(tracker, sync, store, changes);
+        logger?.error?.("Failed to persist store:", e);
+      });
+    return queue;
+  }
+
+  function flush() {
+    return queue;
+  }
+
+  return { store, persist, flush };
+}
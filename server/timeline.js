@@ -0,0 +1,44 @@
+// server/timeline.js
+
+// Thins stored leaderboard samples (oldest first) down to at most `points` by splitting
+// the time they cover into equal buckets and keeping the last sample of each; points
+// only go up, so that sample stands for the whole bucket. The first sample is always
+// kept. Only the `top` players on the latest sample are returned, with their points at
+// each kept sample (null before they reached the leaderboard).
+export function downsampleTimeline(samples, { points = 200, top = 5 } = {}) {
+  if (samples.length === 0) return { samples: 0, players: [], points: [] };
+
+  let kept = samples;
+  if (samples.length > points) {
+    const firstAt = Date.parse(samples[0].at);
+    const span = Date.parse(samples[samples.length - 1].at) - firstAt || 1;
+    const buckets = new Map();
+    for (const sample of samples.slice(1)) {
+      const bucket = Math.min(points - 2, Math.floor(((Date.parse(sample.at) - firstAt) / span) * (points - 1)));
+      buckets.set(bucket, sample);
+    }
+    kept = [samples[0], ...buckets.values()];
+  }
+
+  const latest = samples[samples.length - 1];
+  const players = [...latest.leaderboard]
+    .sort((a, b) => b.points - a.points)
+    .slice(0, top)
+    .map(({ uid, name }) => ({ uid, name }));
+
+  return {
+    samples: samples.length,
+    players,
+    points: kept.map((sample) => {
+      const byUid = new Map(sample.leaderboard.map((entry) => [entry.uid, entry.points]));
+      return {
+        at: sample.at,
+        collectedPoints: sample.collectedPoints,
+        requiredPoints: sample.requiredPoints,
+        progress: sample.requiredPoints > 0 ? Math.min(1, sample.collectedPoints / sample.requiredPoints) : null,
+        resources: sample.resources || [],
+        players: Object.fromEntries(players.map(({ uid }) => [uid, byUid.get(uid) ?? null])),
+      };
+    }),
+  };
+}
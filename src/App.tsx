@@ -1,8 +1,32 @@
 import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { io } from "socket.io-client";
 import SiteFooter from "./components/SiteFooter";
 import LeaderboardRewardsPanel from "./components/LeaderboardRewardsPanel";
+import MarketPoolTable from "./components/MarketPoolTable";
+import ModelOddsTable from "./components/ModelOddsTable";
+import MarketStatus from "./components/MarketStatus";
 import RewardStagesPanel from "./components/RewardStagesPanel";
-import { RONIN_CHAIN, shortAddress } from "./lib/tokens";
+import TimelineChart from "./components/TimelineChart";
+import { Contract } from "ethers";
+import { authFetch } from "./lib/api";
+import { getEthersSigner } from "./lib/ethersSigner";
+import {
+  estimatePayout,
+  fetchFixedOdds,
+  fetchMarketPool,
+  MARKET_TYPE_LABELS,
+  type BetMode,
+  type FixedOddsBook,
+  type MarketPool,
+  type MarketType,
+} from "./lib/marketPool";
+import { fetchFutures, fetchMarket, isPreLiveFutures, type MarketView } from "./lib/marketState";
+import { getMasterpiecePoolContract, MASTERPIECE_POOL_ADDRESS } from "./lib/masterpiecePool";
+import { playerPath } from "./lib/players";
+import { fetchProjection, formatChance, type Projection } from "./lib/projection";
+import { fetchTimeline, type Timeline } from "./lib/timeline";
+import { DYNW_TOKEN, RONIN_CHAIN, parseUnits, shortAddress } from "./lib/tokens";
 import { useWallet } from "./lib/wallet";
 import type { RewardItem } from "./lib/rewards";
 import "./App.css";
@@ -43,6 +67,12 @@ type Bet = {
   pickedUid: string | null;
   pickedName: string | null;
   amount: number;
+  mode?: BetMode;
+  odds?: number;
+  marketType?: MarketType;
+  opponentName?: string | null;
+  status?: "ACTIVE" | "VOIDED";
+  voidReason?: string | null;
   createdAt: string;
 };
 
@@ -58,10 +88,55 @@ type OddsRow = {
 type OddsHistory = {
   startId: number;
   endId: number;
-  updatedAt: string;
+  updatedAt: string | null;
+  total: number;
+  missing: number;
   masterpieces: Masterpiece[];
 };
 
+type OddsHistoryJob = {
+  status: "running" | "done" | "failed";
+  total: number;
+  done: number;
+  failed: { id: number; error: string }[];
+};
+
+type PlayerSelectProps = {
+  label: string;
+  value: string;
+  picks: LeaderRow[];
+  onChange: (uid: string) => void;
+};
+
+function PlayerSelect({ label, value, picks, onChange }: PlayerSelectProps) {
+  return (
+    <label>
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value)}>
+        {picks.map((row) => (
+          <option key={row.profile.uid} value={row.profile.uid}>
+            {row.profile.displayName || row.profile.uid}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function describeBet(bet: Bet) {
+  const pick = bet.pickedName || bet.pickedUid;
+  switch (bet.marketType) {
+    case "trifecta":
+      return `Trifecta • ${pick}`;
+    case "top3":
+      return `Top 3 • ${pick}`;
+    case "h2h":
+      return `H2H • ${pick} over ${bet.opponentName || "?"}`;
+    default:
+      return `P${bet.position} • ${pick}${bet.mode === "fixed" && bet.odds ? ` @ ${bet.odds.toFixed(2)}x` : ""}`;
+  }
+}
+
 function formatOdds(odds: number) {
   if (!Number.isFinite(odds) || odds <= 0) return "—";
   return `${odds.toFixed(2)}x`;
@@ -108,19 +183,31 @@ function buildOddsRows(masterpieces: Masterpiece[]) {
 }
 
 export default function App() {
-  const { wallet, chainId, connectWallet, disconnectWallet } = useWallet();
+  const { wallet, provider, chainId, connectWallet, disconnectWallet, isSignedIn, loginAddress, signIn } = useWallet();
   const [mpId, setMpId] = useState<number>(55);
   const [mp, setMp] = useState<Masterpiece | null>(null);
   const [bets, setBets] = useState<Bet[]>([]);
   const [amount, setAmount] = useState(50000);
   const [selectedPos, setSelectedPos] = useState<1 | 2 | 3>(1);
   const [selectedUid, setSelectedUid] = useState("");
+  const [marketType, setMarketType] = useState<MarketType>("position");
+  const [betMode, setBetMode] = useState<BetMode>("pool");
+  const [trifectaPicks, setTrifectaPicks] = useState<string[]>(["", "", ""]);
+  const [opponentUid, setOpponentUid] = useState("");
+  const [pool, setPool] = useState<MarketPool | null>(null);
+  const [fixedOdds, setFixedOdds] = useState<FixedOddsBook | null>(null);
+  const [market, setMarket] = useState<MarketView | null>(null);
+  const [futuresMarkets, setFuturesMarkets] = useState<MarketView[]>([]);
   const [status, setStatus] = useState("");
   const [activeTab, setActiveTab] = useState<"betting" | "odds">("betting");
   const [oddsRows, setOddsRows] = useState<OddsRow[]>([]);
   const [oddsHistory, setOddsHistory] = useState<OddsHistory | null>(null);
+  const [oddsJob, setOddsJob] = useState<OddsHistoryJob | null>(null);
+  const [projection, setProjection] = useState<Projection | null>(null);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
 
   const isWrongChain = !!wallet && chainId !== null && chainId !== RONIN_CHAIN.chainId;
+  const needsSignIn = !!wallet && (!isSignedIn || loginAddress?.toLowerCase() !== wallet.toLowerCase());
 
   async function loadMasterpiece(id: number) {
     const response = await fetch(`/api/masterpiece/${id}`);
@@ -135,32 +222,144 @@ export default function App() {
     setBets(json?.bets || []);
   }
 
-  async function loadOdds() {
-    const response = await fetch(`/api/odds/history?endId=${mpId}`);
-    const json = await response.json();
-    if (!response.ok || !json?.data?.masterpieces) {
-      setStatus("Unable to load odds history.");
-      return;
-    }
-    const history = json.data as OddsHistory;
-    setOddsHistory(history);
-    setOddsRows(buildOddsRows(history.masterpieces));
+  // Pages through the stored range; returns whether a rebuild is still running.
+  async function loadOdds(): Promise<boolean> {
+    const masterpieces: Masterpiece[] = [];
+    let history: OddsHistory | null = null;
+    let building = false;
+    do {
+      const response = await fetch(`/api/odds/history?endId=${mpId}&offset=${masterpieces.length}`);
+      const json = await response.json();
+      if (!response.ok || !json?.data?.masterpieces) {
+        setStatus("Unable to load odds history.");
+        return false;
+      }
+      history = json.data as OddsHistory;
+      building = Boolean(json.building);
+      setOddsJob(json.job ?? null);
+      if (history.masterpieces.length === 0) break;
+      masterpieces.push(...history.masterpieces);
+    } while (masterpieces.length < history.total);
+    setOddsHistory({ ...history, masterpieces });
+    setOddsRows(buildOddsRows(masterpieces));
+    return building;
   }
 
   useEffect(() => {
+    setMp(null);
     loadMasterpiece(mpId).catch((err) => setStatus(err.message));
     loadBets(mpId).catch(() => undefined);
   }, [mpId]);
 
   useEffect(() => {
-    if (activeTab === "odds") {
-      loadOdds().catch(() => setStatus("Unable to load odds history."));
+    fetchFutures().then(setFuturesMarkets).catch(() => undefined);
+  }, []);
+
+  // Live finish projections and the points timeline; the server samples the leaderboard
+  // about once a minute.
+  useEffect(() => {
+    setProjection(null);
+    setTimeline(null);
+    if (activeTab !== "betting") return;
+    let cancelled = false;
+    const load = () => {
+      fetchProjection(mpId)
+        .then((next) => {
+          if (!cancelled) setProjection(next);
+        })
+        .catch(() => undefined);
+      fetchTimeline(mpId)
+        .then((next) => {
+          if (!cancelled) setTimeline(next);
+        })
+        .catch(() => undefined);
+    };
+    load();
+    const timer = setInterval(load, 60_000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [activeTab, mpId]);
+
+  const projectionByUid = useMemo(
+    () => new Map((projection?.players || []).map((player) => [player.uid, player])),
+    [projection]
+  );
+
+  useEffect(() => {
+    setMarket(null);
+    fetchMarket(mpId).then(setMarket).catch(() => undefined);
+
+    const socket = io({ withCredentials: true });
+    socket.on("market:state", (next: MarketView) => {
+      if (next.masterpieceId === mpId) setMarket(next);
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [mpId]);
+
+  useEffect(() => {
+    setPool(null);
+    fetchMarketPool(mpId, selectedPos).then(setPool).catch(() => undefined);
+
+    const socket = io({ withCredentials: true });
+    socket.on("market:pool", (next: MarketPool) => {
+      if (next.masterpieceId === mpId && next.position === selectedPos) setPool(next);
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [mpId, selectedPos]);
+
+  useEffect(() => {
+    if (betMode === "fixed") {
+      fetchFixedOdds().then(setFixedOdds).catch((err) => setStatus(err.message));
     }
+  }, [betMode, mpId]);
+
+  useEffect(() => {
+    if (activeTab !== "odds") return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const poll = () => {
+      loadOdds()
+        .then((building) => {
+          if (building && !cancelled) timer = setTimeout(poll, 3000);
+        })
+        .catch(() => setStatus("Unable to load odds history."));
+    };
+    poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
   }, [activeTab, mpId]);
 
-  const availablePicks = useMemo(() => {
+  const isFutureBet = isPreLiveFutures(market);
+  const oddsNames = useMemo(() => Object.fromEntries(oddsRows.map((row) => [row.uid, row.name])), [oddsRows]);
+  const availablePicks = useMemo<LeaderRow[]>(() => {
+    if (isFutureBet && market?.futures) {
+      return market.futures.players.map((player, index) => ({
+        position: index + 1,
+        masterpiecePoints: 0,
+        profile: { uid: player.uid, displayName: player.name },
+      }));
+    }
     return (mp?.leaderboard || []).slice(0, 100);
-  }, [mp]);
+  }, [mp, market, isFutureBet]);
+
+  const selectedPickName =
+    availablePicks.find((row) => row.profile.uid === selectedUid)?.profile.displayName || selectedUid;
+  const isPositionMarket = marketType === "position";
+  const isFixed = isPositionMarket && betMode === "fixed";
+  const fixedPrice = fixedOdds?.prices[selectedUid] ?? fixedOdds?.prices[selectedPickName] ?? null;
+  const projectedPayout = isFixed
+    ? fixedPrice
+      ? Math.floor(amount * fixedPrice)
+      : 0
+    : estimatePayout(pool, selectedUid, amount);
 
   const playerMasterpiecePoints = mp?.profileByUserId?.masterpiecePoints ?? 0;
 
@@ -170,31 +369,101 @@ export default function App() {
     }
   }, [availablePicks, selectedUid]);
 
+  useEffect(() => {
+    const uids = availablePicks.map((row) => row.profile.uid);
+    if (uids.length >= 3 && trifectaPicks.some((uid) => !uid)) setTrifectaPicks(uids.slice(0, 3));
+    if (uids.length >= 2 && !opponentUid) setOpponentUid(uids[1]);
+  }, [availablePicks, trifectaPicks, opponentUid]);
+
   async function placeBet() {
     if (!wallet) {
       setStatus("Connect your wallet first.");
       return;
     }
-    if (!selectedUid) {
+    if (needsSignIn) {
+      setStatus("Sign in with your wallet first.");
+      return;
+    }
+    if (marketType !== "trifecta" && !selectedUid) {
       setStatus("Select a player.");
       return;
     }
+    if (marketType === "trifecta" && new Set(trifectaPicks.filter(Boolean)).size !== 3) {
+      setStatus("Pick three different players for the trifecta.");
+      return;
+    }
+    if (marketType === "h2h" && (!opponentUid || opponentUid === selectedUid)) {
+      setStatus("Pick two different players for the head-to-head.");
+      return;
+    }
+
+    if (isFixed && !fixedPrice) {
+      setStatus("No fixed-odds price for this player.");
+      return;
+    }
+
+    if (!provider || !MASTERPIECE_POOL_ADDRESS) {
+      setStatus("Masterpiece pool is not configured.");
+      return;
+    }
+
+    const payload = {
+      masterpieceId: mpId,
+      marketType,
+      ...(isFutureBet ? { futureBet: true } : {}),
+      amount,
+      ...(isPositionMarket
+        ? { position: selectedPos, pickedUid: selectedUid, mode: betMode, ...(isFixed ? { odds: fixedPrice } : {}) }
+        : {}),
+      ...(marketType === "trifecta" ? { picks: trifectaPicks } : {}),
+      ...(marketType === "top3" ? { pickedUid: selectedUid } : {}),
+      ...(marketType === "h2h" ? { pickedUid: selectedUid, opponentUid } : {}),
+    };
+
+    setStatus("Checking bet...");
+    const previewResponse = await authFetch("/api/bets/preview", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+    const preview = await previewResponse.json();
+    if (!previewResponse.ok) {
+      if (preview?.odds) fetchFixedOdds().then(setFixedOdds).catch(() => undefined);
+      setStatus(preview?.error || "Bet rejected.");
+      return;
+    }
+
+    const pool = await getMasterpiecePoolContract(provider);
+    if (!pool) throw new Error("Masterpiece pool contract unavailable.");
+    const amountWei = parseUnits(String(amount), DYNW_TOKEN.decimals);
+    const { signer, address } = await getEthersSigner(provider);
+    const erc20 = new Contract(
+      DYNW_TOKEN.address,
+      [
+        "function allowance(address owner, address spender) view returns (uint256)",
+        "function approve(address spender, uint256 amount) returns (bool)",
+      ],
+      signer,
+    );
+    const allowance = await erc20.allowance(address, MASTERPIECE_POOL_ADDRESS);
+    if (allowance < amountWei) {
+      setStatus("⏳ Approving DYNW for the masterpiece pool...");
+      await (await erc20.approve(MASTERPIECE_POOL_ADDRESS, amountWei)).wait();
+    }
+    setStatus("⏳ Placing bet on-chain...");
+    const tx = await pool.contract.placeBet(preview.betId, preview.position, amountWei);
+    await tx.wait();
 
-    setStatus("Submitting bet...");
-    const response = await fetch("/api/bets", {
+    setStatus("⏳ Recording bet...");
+    const response = await authFetch("/api/bets", {
       method: "POST",
-      headers: { "content-type": "application/json" },
-      body: JSON.stringify({
-        walletAddress: wallet,
-        masterpieceId: mpId,
-        position: selectedPos,
-        pickedUid: selectedUid,
-        amount,
-      }),
+      body: JSON.stringify({ ...payload, ...(preview.quoteId ? { quoteId: preview.quoteId } : {}), txHash: tx.hash }),
     });
     const json = await response.json();
     if (!response.ok) {
       setStatus(json?.error || "Bet failed.");
+      // A bet refused once its stake is on-chain is still recorded, as voided.
+      if (json?.bet) await loadBets(mpId);
+      if (json?.odds) fetchFixedOdds().then(setFixedOdds).catch(() => undefined);
       return;
     }
     setStatus("✅ Bet placed.");
@@ -205,9 +474,16 @@ export default function App() {
     <div className="app-shell">
       <header className="topbar">
         <h1>CraftWorld Bets</h1>
-        <button onClick={wallet ? disconnectWallet : connectWallet}>
-          {wallet ? `Disconnect ${shortAddress(wallet)}` : "Connect Wallet"}
-        </button>
+        <div className="topbar-actions">
+          <Link to="/crash">Crash</Link>
+          {wallet && <Link to="/my-bets">My Bets</Link>}
+          {needsSignIn && (
+            <button onClick={() => signIn().catch((err) => setStatus(err.message))}>Sign In</button>
+          )}
+          <button onClick={wallet ? disconnectWallet : connectWallet}>
+            {wallet ? `Disconnect ${shortAddress(wallet)}` : "Connect Wallet"}
+          </button>
+        </div>
       </header>
 
       {isWrongChain && <p className="warning">Switch to Ronin Chain (2020).</p>}
@@ -224,61 +500,184 @@ export default function App() {
             Masterpiece ID
             <input type="number" value={mpId} onChange={(e) => setMpId(Number(e.target.value) || 1)} />
           </label>
-          <p>{mp ? `${mp.name} — ${mp.collectedPoints}/${mp.requiredPoints} points` : "Loading..."}</p>
-          <label>
-            Position
-            <select value={selectedPos} onChange={(e) => setSelectedPos(Number(e.target.value) as 1 | 2 | 3)}>
-              <option value={1}>1st</option>
-              <option value={2}>2nd</option>
-              <option value={3}>3rd</option>
-            </select>
-          </label>
+          {futuresMarkets.some((item) => isPreLiveFutures(item)) && (
+            <label>
+              Upcoming futures
+              <select value="" onChange={(e) => e.target.value && setMpId(Number(e.target.value))}>
+                <option value="">Choose a futures market</option>
+                {futuresMarkets
+                  .filter((item) => isPreLiveFutures(item))
+                  .map((item) => (
+                    <option key={item.masterpieceId} value={item.masterpieceId}>
+                      #{item.masterpieceId}
+                      {item.futures?.name ? ` — ${item.futures.name}` : ""}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          )}
+          <p>
+            {mp
+              ? `${mp.name} — ${mp.collectedPoints}/${mp.requiredPoints} points`
+              : isFutureBet
+                ? "Not started yet — betting on the futures player list."
+                : "Loading..."}
+          </p>
+          <MarketStatus market={market} />
           <label>
-            Pick
-            <select value={selectedUid} onChange={(e) => setSelectedUid(e.target.value)}>
-              {availablePicks.map((row) => (
-                <option key={row.profile.uid} value={row.profile.uid}>
-                  {row.profile.displayName || row.profile.uid}
+            Market
+            <select value={marketType} onChange={(e) => setMarketType(e.target.value as MarketType)}>
+              {(Object.keys(MARKET_TYPE_LABELS) as MarketType[]).map((type) => (
+                <option key={type} value={type}>
+                  {MARKET_TYPE_LABELS[type]}
                 </option>
               ))}
             </select>
           </label>
+          {isPositionMarket && (
+            <>
+              <label>
+                Bet Type
+                <select
+                  value={betMode}
+                  onChange={(e) => {
+                    const next = e.target.value as BetMode;
+                    setBetMode(next);
+                    if (next === "fixed") setSelectedPos(1);
+                  }}
+                >
+                  <option value="pool">Pool (parimutuel)</option>
+                  <option value="fixed">Fixed odds</option>
+                </select>
+              </label>
+              <label>
+                Position
+                <select
+                  value={selectedPos}
+                  disabled={betMode === "fixed"}
+                  onChange={(e) => setSelectedPos(Number(e.target.value) as 1 | 2 | 3)}
+                >
+                  <option value={1}>1st</option>
+                  <option value={2}>2nd</option>
+                  <option value={3}>3rd</option>
+                </select>
+              </label>
+            </>
+          )}
+          {marketType === "trifecta" ? (
+            ["1st", "2nd", "3rd"].map((place, index) => (
+              <PlayerSelect
+                key={place}
+                label={place}
+                value={trifectaPicks[index]}
+                picks={availablePicks}
+                onChange={(uid) => setTrifectaPicks((prev) => prev.map((value, i) => (i === index ? uid : value)))}
+              />
+            ))
+          ) : (
+            <PlayerSelect label="Pick" value={selectedUid} picks={availablePicks} onChange={setSelectedUid} />
+          )}
+          {marketType === "h2h" && (
+            <PlayerSelect label="Against" value={opponentUid} picks={availablePicks} onChange={setOpponentUid} />
+          )}
           <label>
             Bet Amount
             <input type="number" min={1} value={amount} onChange={(e) => setAmount(Number(e.target.value) || 1)} />
           </label>
-          <button onClick={() => placeBet().catch((err) => setStatus(err.message))}>Place Bet</button>
+          {selectedUid && isPositionMarket && !isFixed && (
+            <p className="muted">
+              If {selectedPickName} wins you get {projectedPayout.toLocaleString("en-US")} DYNW (
+              {(projectedPayout / amount).toFixed(2)}x at the current pool)
+            </p>
+          )}
+          {selectedUid && isFixed && (
+            <p className="muted">
+              {fixedPrice
+                ? `Fixed price ${fixedPrice.toFixed(2)}x: if ${selectedPickName} wins you get ${projectedPayout.toLocaleString("en-US")} DYNW`
+                : `No fixed-odds price for ${selectedPickName}.`}
+            </p>
+          )}
+          {!isPositionMarket && (
+            <p className="muted">
+              Winning bets split the {MARKET_TYPE_LABELS[marketType].toLowerCase()} pool pro-rata; if nobody wins the
+              house keeps it.{marketType === "h2h" ? " A tie on points refunds every stake." : ""}
+            </p>
+          )}
+          <button
+            disabled={!!market && market.state !== "open"}
+            onClick={() => placeBet().catch((err) => setStatus(err.message))}
+          >
+            Place Bet
+          </button>
           <p>{status}</p>
 
+          {isPositionMarket && !isFixed && (
+            <>
+              <h3>Pool</h3>
+              <MarketPoolTable pool={pool} selectedUid={selectedUid} />
+            </>
+          )}
+
           <h3>Recent Bets</h3>
           <ul>
             {bets.slice(-10).reverse().map((bet) => (
               <li key={bet.id}>
-                #{bet.masterpieceId} P{bet.position} • {bet.pickedName || bet.pickedUid} • {bet.amount}
+                #{bet.masterpieceId} {describeBet(bet)} • {bet.amount}
+                {bet.status === "VOIDED" && <span className="muted"> • VOIDED ({bet.voidReason || "refunded"})</span>}
               </li>
             ))}
           </ul>
 
           <h3>Leaderboard</h3>
+          {projection && !projection.finished && projection.finishesAt && (
+            <p className="muted">
+              Projected to finish {new Date(projection.finishesAt).toLocaleString()} • chances from {projection.samples}{" "}
+              leaderboard sample{projection.samples === 1 ? "" : "s"}
+            </p>
+          )}
           <table>
             <thead>
               <tr>
                 <th>Rank</th>
                 <th>Player</th>
                 <th>MP Points</th>
+                {projection && !projection.finished && (
+                  <>
+                    <th>Projected</th>
+                    <th>1st</th>
+                    <th>2nd</th>
+                    <th>3rd</th>
+                  </>
+                )}
               </tr>
             </thead>
             <tbody>
-              {(mp?.leaderboard || []).map((entry) => (
-                <tr key={`${entry.profile.uid}-${entry.position}`}>
-                  <td>#{entry.position}</td>
-                  <td>{entry.profile.displayName || entry.profile.uid}</td>
-                  <td>{entry.masterpiecePoints.toLocaleString("en-US")}</td>
-                </tr>
-              ))}
+              {(mp?.leaderboard || []).map((entry) => {
+                const projected = projectionByUid.get(entry.profile.uid);
+                return (
+                  <tr key={`${entry.profile.uid}-${entry.position}`}>
+                    <td>#{entry.position}</td>
+                    <td>
+                      <Link to={playerPath(entry.profile.uid)}>{entry.profile.displayName || entry.profile.uid}</Link>
+                    </td>
+                    <td>{entry.masterpiecePoints.toLocaleString("en-US")}</td>
+                    {projection && !projection.finished && (
+                      <>
+                        <td>{projected ? Math.round(projected.projectedPoints).toLocaleString("en-US") : "—"}</td>
+                        <td>{formatChance(projected?.p1)}</td>
+                        <td>{formatChance(projected?.p2)}</td>
+                        <td>{formatChance(projected?.p3)}</td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
 
+          <h3>Points over time</h3>
+          <TimelineChart timeline={timeline} />
+
           <RewardStagesPanel
             rewardStages={mp?.rewardStages}
             masterpiecePoints={playerMasterpiecePoints}
@@ -292,9 +691,19 @@ export default function App() {
           <h2>Sports Odds</h2>
           {oddsHistory && (
             <p>
-              Range #{oddsHistory.startId} - #{oddsHistory.endId} (updated {new Date(oddsHistory.updatedAt).toLocaleString()})
+              Range #{oddsHistory.startId} - #{oddsHistory.endId}
+              {oddsHistory.updatedAt && <> (updated {new Date(oddsHistory.updatedAt).toLocaleString()})</>}
+              {oddsHistory.missing > 0 && <> · {oddsHistory.missing} not loaded yet</>}
             </p>
           )}
+          {oddsJob?.status === "running" && (
+            <p className="muted">
+              Building history… {oddsJob.done}/{oddsJob.total} masterpieces
+            </p>
+          )}
+          {oddsJob?.status === "done" && oddsJob.failed.length > 0 && (
+            <p className="muted">{oddsJob.failed.length} masterpieces failed to load; they'll be retried next time.</p>
+          )}
           <table>
             <thead>
               <tr>
@@ -308,7 +717,9 @@ export default function App() {
             <tbody>
               {oddsRows.map((row) => (
                 <tr key={row.uid}>
-                  <td>{row.name}</td>
+                  <td>
+                    <Link to={playerPath(row.uid)}>{row.name}</Link>
+                  </td>
                   <td>{row.appearances}</td>
                   <td>{row.avgPlacement.toFixed(2)}</td>
                   <td>{row.winPercent.toFixed(1)}%</td>
@@ -317,6 +728,8 @@ export default function App() {
               ))}
             </tbody>
           </table>
+          <h3>Model odds by position</h3>
+          <ModelOddsTable names={oddsNames} />
         </section>
       )}
 
@@ -0,0 +1,52 @@
+import type { MarketPool } from "../lib/marketPool";
+
+type MarketPoolTableProps = {
+  pool: MarketPool | null;
+  selectedUid: string;
+};
+
+function formatAmount(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+export default function MarketPoolTable({ pool, selectedUid }: MarketPoolTableProps) {
+  if (!pool || pool.picks.length === 0) {
+    return <p className="muted">No bets in this market yet.</p>;
+  }
+
+  return (
+    <>
+      <p className="muted">
+        Pot {formatAmount(pool.pot)} DYNW from {pool.bettors} bettor{pool.bettors === 1 ? "" : "s"} • carryover{" "}
+        {formatAmount(pool.carryover.current)} • if nobody backs the winner,{" "}
+        {formatAmount(pool.carryover.ifNoWinner)} rolls over and {formatAmount(pool.houseTakeIfNoWinner)} goes to the
+        house
+      </p>
+      <table className="pool-table">
+        <thead>
+          <tr>
+            <th>Pick</th>
+            <th>Staked</th>
+            <th>Share</th>
+            <th>Bettors</th>
+            <th>Pays</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pool.picks.map((pick) => (
+            <tr
+              key={pick.pickedUid || pick.pickedName || ""}
+              className={pick.pickedUid === selectedUid ? "is-selected" : ""}
+            >
+              <td>{pick.pickedName || pick.pickedUid}</td>
+              <td>{formatAmount(pick.stake)}</td>
+              <td>{(pick.share * 100).toFixed(1)}%</td>
+              <td>{pick.bettors}</td>
+              <td>{pick.multiplier.toFixed(2)}x</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import type { MarketView } from "../lib/marketState";
+
+type MarketStatusProps = {
+  market: MarketView | null;
+};
+
+const STATE_LABELS: Record<MarketView["state"], string> = {
+  open: "Open",
+  suspended: "Suspended",
+  closed: "Closed",
+  settled: "Settled",
+  voided: "Voided",
+};
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+export default function MarketStatus({ market }: MarketStatusProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const closesAt = market?.state === "open" && market.cutoff.closesAt ? Date.parse(market.cutoff.closesAt) : null;
+
+  useEffect(() => {
+    if (closesAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [closesAt]);
+
+  if (!market) return null;
+
+  const closesWhen: string[] = [];
+  if (closesAt !== null) closesWhen.push(`in ${formatCountdown(closesAt - now)}`);
+  if (market.cutoff.closesAtPoints !== null) {
+    closesWhen.push(
+      `at ${Math.ceil(market.cutoff.closesAtPoints).toLocaleString("en-US")} points (${market.rules.cutoffPercent}%)`
+    );
+  }
+
+  const futures = market.futures && !market.futures.wentLiveAt ? market.futures : null;
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  return (
+    <p className="market-status">
+      {futures && (
+        <span className="market-futures">
+          Futures{futures.name ? ` · ${futures.name}` : ""}: betting {formatDate(futures.opensAt)} –{" "}
+          {formatDate(futures.closesAt)}; refunded if not started by {formatDate(futures.startDeadline)}.{" "}
+        </span>
+      )}
+      <span className={`stage-status market-state is-${market.state}`}>{STATE_LABELS[market.state]}</span>{" "}
+      {market.state === "suspended" && (market.suspendReason || "Betting is paused by an admin.")}
+      {market.state === "closed" && `Betting closed (${market.closeReason || "cutoff"}).`}
+      {market.state === "voided" && `Market voided (${market.voidReason || "cancelled"}); every stake is refunded.`}
+      {market.state === "open" && closesWhen.length > 0 && `Betting closes ${closesWhen.join(" or ")}.`}
+    </p>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { MODEL_POSITION_LABELS, fetchModelOdds, type ModelOdds, type ModelPosition } from "../lib/modelOdds";
+import { playerPath } from "../lib/players";
+
+type ModelOddsTableProps = {
+  // Display names from the odds history, for players the model has no name for.
+  names: Record<string, string>;
+};
+
+const POSITIONS = Object.keys(MODEL_POSITION_LABELS) as ModelPosition[];
+
+export default function ModelOddsTable({ names }: ModelOddsTableProps) {
+  const [position, setPosition] = useState<ModelPosition>("1");
+  const [model, setModel] = useState<ModelOdds | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setError("");
+    fetchModelOdds(position)
+      .then((next) => {
+        if (!cancelled) setModel(next);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [position]);
+
+  const rows = model
+    ? Object.entries(model.probs)
+        .map(([player, probability]) => ({ player, probability, odds: model.odds[player] }))
+        .sort((a, b) => b.probability - a.probability)
+    : [];
+
+  return (
+    <>
+      <div className="model-positions">
+        {POSITIONS.map((value) => (
+          <button key={value} className={position === value ? "active" : ""} onClick={() => setPosition(value)}>
+            {MODEL_POSITION_LABELS[value]}
+          </button>
+        ))}
+      </div>
+      {error && <p className="muted">{error}</p>}
+      {!error && model && rows.length === 0 && <p className="muted">No model history yet.</p>}
+      {rows.length > 0 && (
+        <table>
+          <thead>
+            <tr>
+              <th>Player</th>
+              <th>P({MODEL_POSITION_LABELS[position]})</th>
+              <th>Fair odds</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.player}>
+                <td>
+                  <Link to={playerPath(row.player)}>{model?.names[row.player] || names[row.player] || row.player}</Link>
+                </td>
+                <td>{(row.probability * 100).toFixed(1)}%</td>
+                <td>{row.odds.toFixed(2)}x</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,105 @@
+import type { Timeline } from "../lib/timeline";
+
+type Series = {
+  key: string;
+  label: string;
+  values: (number | null)[];
+};
+
+type LineChartProps = {
+  times: number[];
+  series: Series[];
+  formatValue: (value: number) => string;
+  maxValue?: number;
+};
+
+const WIDTH = 640;
+const HEIGHT = 200;
+const PAD = { top: 10, right: 12, bottom: 22, left: 64 };
+const COLORS = ["#5a6cff", "#6df2b3", "#ffcf7a", "#ff7a9a", "#7ad7ff", "#c58bff", "#b2b8db"];
+
+function LineChart({ times, series, formatValue, maxValue }: LineChartProps) {
+  const start = times[0];
+  const end = times[times.length - 1];
+  const top = maxValue ?? Math.max(1, ...series.flatMap((s) => s.values.filter((v): v is number => v !== null)));
+  const x = (time: number) => PAD.left + ((time - start) / (end - start || 1)) * (WIDTH - PAD.left - PAD.right);
+  const y = (value: number) => HEIGHT - PAD.bottom - (value / top) * (HEIGHT - PAD.top - PAD.bottom);
+
+  // A gap in the values (player not on the leaderboard yet) starts a new segment.
+  const path = (values: (number | null)[]) => {
+    let d = "";
+    values.forEach((value, index) => {
+      if (value === null) return;
+      const command = index === 0 || values[index - 1] === null ? "M" : "L";
+      d += `${command}${x(times[index]).toFixed(1)},${y(value).toFixed(1)} `;
+    });
+    return d;
+  };
+
+  return (
+    <>
+      <svg className="timeline-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img">
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(top * fraction)} y2={y(top * fraction)} className="grid" />
+            <text x={PAD.left - 6} y={y(top * fraction) + 4} textAnchor="end">
+              {formatValue(top * fraction)}
+            </text>
+          </g>
+        ))}
+        <text x={PAD.left} y={HEIGHT - 6}>
+          {new Date(start).toLocaleTimeString()}
+        </text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end">
+          {new Date(end).toLocaleTimeString()}
+        </text>
+        {series.map((s, index) => (
+          <path key={s.key} d={path(s.values)} fill="none" stroke={COLORS[index % COLORS.length]} strokeWidth={2} />
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="timeline-legend">
+          {series.map((s, index) => (
+            <span key={s.key}>
+              <i style={{ background: COLORS[index % COLORS.length] }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+type TimelineChartProps = {
+  timeline: Timeline | null;
+};
+
+export default function TimelineChart({ timeline }: TimelineChartProps) {
+  if (!timeline || timeline.points.length < 2) {
+    return <p className="muted">Not enough leaderboard samples for a chart yet.</p>;
+  }
+  const times = timeline.points.map((point) => Date.parse(point.at));
+
+  return (
+    <div className="timeline">
+      <h4>Top {timeline.players.length} players</h4>
+      <LineChart
+        times={times}
+        series={timeline.players.map((player) => ({
+          key: player.uid,
+          label: player.name,
+          values: timeline.points.map((point) => point.players[player.uid] ?? null),
+        }))}
+        formatValue={(value) => Math.round(value).toLocaleString("en-US")}
+      />
+      <h4>Completion</h4>
+      <LineChart
+        times={times}
+        series={[{ key: "progress", label: "Completion", values: timeline.points.map((point) => point.progress) }]}
+        formatValue={(value) => `${Math.round(value * 100)}%`}
+        maxValue={1}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+export const AUTH_TOKEN_KEY = "cw_bets_token";
+export const AUTH_LOGIN_KEY = "cw_bets_login";
+
+export function getAuthToken() {
+  const stored = localStorage.getItem(AUTH_TOKEN_KEY);
+  if (stored) return stored;
+  return null;
+}
+
+export async function authFetch(input: RequestInfo, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) {
+    headers.set("authorization", `Bearer ${token}`);
+  }
+  if (!headers.has("content-type") && init.body) {
+    headers.set("content-type", "application/json");
+  }
+  return fetch(input, { ...init, headers, credentials: "include" });
+}
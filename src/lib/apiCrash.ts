@@ -1,20 +1,4 @@
-function getAuthToken() {
-  const stored = localStorage.getItem("cw_bets_token");
-  if (stored) return stored;
-  return null;
-}
-
-async function authFetch(input: RequestInfo, init: RequestInit = {}) {
-  const headers = new Headers(init.headers);
-  const token = getAuthToken();
-  if (token) {
-    headers.set("authorization", `Bearer ${token}`);
-  }
-  if (!headers.has("content-type") && init.body) {
-    headers.set("content-type", "application/json");
-  }
-  return fetch(input, { ...init, headers, credentials: "include" });
-}
+import { authFetch } from "./api";
 
 export async function placeCrashBet(amount: number) {
   const response = await authFetch("/api/crash/bet", {
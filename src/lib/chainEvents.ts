@@ -0,0 +1,40 @@
+import { useEffect, useRef } from "react";
+import { io } from "socket.io-client";
+
+export type ChainEvent = {
+  id: string;
+  contract: "vaultLedger" | "masterpiecePool" | "crashVault";
+  address: string;
+  event: string;
+  user: string | null;
+  betId: string | null;
+  args: Record<string, string>;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+};
+
+export async function fetchWalletActivity(wallet: string, { limit = 50, offset = 0 } = {}) {
+  const response = await fetch(`/api/wallet/${wallet}/activity?limit=${limit}&offset=${offset}`);
+  const json = await response.json();
+  if (!response.ok || !json?.events) throw new Error(json?.error || "Unable to load wallet activity");
+  return json as { total: number; events: ChainEvent[] };
+}
+
+// Calls `onEvent` whenever the server indexes a contract event for `wallet`.
+export function useWalletEvents(wallet: string | null, onEvent: (event: ChainEvent) => void) {
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    if (!wallet) return;
+    const address = wallet.toLowerCase();
+    const socket = io({ withCredentials: true });
+    socket.on("chain:event", (event: ChainEvent) => {
+      if (event.user === address) handler.current(event);
+    });
+    return () => {
+      socket.disconnect();
+    };
+  }, [wallet]);
+}
@@ -0,0 +1,66 @@
+export type BetMode = "pool" | "fixed";
+
+export type MarketType = "position" | "trifecta" | "top3" | "h2h";
+
+export const MARKET_TYPE_LABELS: Record<MarketType, string> = {
+  position: "Finishing position",
+  trifecta: "Trifecta (exact top 3)",
+  top3: "Top-3 finish",
+  h2h: "Head-to-head",
+};
+
+export type FixedOddsBook = {
+  positions: number[];
+  marginBps: number;
+  maxOdds: number;
+  maxPlayerLiability: number;
+  maxMarketLiability: number;
+  prices: Record<string, number>;
+};
+
+export type MarketPoolPick = {
+  pickedUid: string | null;
+  pickedName: string | null;
+  stake: number;
+  bettors: number;
+  share: number;
+  multiplier: number;
+};
+
+export type MarketPool = {
+  masterpieceId: number;
+  position: number;
+  pot: number;
+  bets: number;
+  bettors: number;
+  carryover: {
+    current: number;
+    ifNoWinner: number;
+  };
+  houseTakeIfNoWinner: number;
+  picks: MarketPoolPick[];
+  updatedAt: string;
+};
+
+export async function fetchMarketPool(masterpieceId: number, position: number) {
+  const response = await fetch(`/api/markets/${masterpieceId}/${position}/pool`);
+  const json = await response.json();
+  if (!response.ok || !json?.pool) throw new Error(json?.error || "Unable to load market pool");
+  return json.pool as MarketPool;
+}
+
+export async function fetchFixedOdds() {
+  const response = await fetch("/api/odds/fixed");
+  const json = await response.json();
+  if (!response.ok || !json?.prices) throw new Error(json?.error || "Unable to load fixed odds");
+  return json as FixedOddsBook;
+}
+
+// Payout if `pickedUid` wins after adding `amount` to it, rounded down the way the
+// server settles (the leftover units go to the largest stakes).
+export function estimatePayout(pool: MarketPool | null, pickedUid: string, amount: number) {
+  if (!Number.isFinite(amount) || amount <= 0) return 0;
+  const pickStake = pool?.picks.find((pick) => pick.pickedUid === pickedUid)?.stake ?? 0;
+  const pot = (pool?.pot ?? 0) + amount;
+  return Math.floor((pot * amount) / (pickStake + amount));
+}
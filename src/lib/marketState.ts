@@ -0,0 +1,62 @@
+export type MarketState = "open" | "suspended" | "closed" | "settled" | "voided";
+
+export type FuturesPlayer = {
+  uid: string;
+  name: string;
+};
+
+export type FuturesInfo = {
+  name: string | null;
+  players: FuturesPlayer[];
+  opensAt: string;
+  closesAt: string;
+  startDeadline: string;
+  wentLiveAt: string | null;
+};
+
+export type MarketView = {
+  masterpieceId: number;
+  state: MarketState;
+  closeReason: string | null;
+  closedAt: string | null;
+  suspendedAt: string | null;
+  suspendReason: string | null;
+  voidReason: string | null;
+  futures: FuturesInfo | null;
+  settleAfter: string | null;
+  settledAt: string | null;
+  collectedPoints: number | null;
+  requiredPoints: number | null;
+  startedAt: string | null;
+  rules: {
+    cutoffPercent: number | null;
+    cutoffMinutes: number | null;
+  };
+  cutoff: {
+    finished: boolean;
+    progress: number | null;
+    closesAt: string | null;
+    closesAtPoints: number | null;
+    closeReason: string | null;
+  };
+  updatedAt: string | null;
+};
+
+export async function fetchMarket(masterpieceId: number) {
+  const response = await fetch(`/api/markets/${masterpieceId}`);
+  const json = await response.json();
+  if (!response.ok || !json?.market) throw new Error(json?.error || "Unable to load market");
+  return json.market as MarketView;
+}
+
+export async function fetchFutures() {
+  const response = await fetch("/api/futures");
+  const json = await response.json();
+  if (!response.ok || !json?.futures) throw new Error(json?.error || "Unable to load futures markets");
+  return json.futures as MarketView[];
+}
+
+// True while a futures market takes bets on its player list rather than a live leaderboard.
+export function isPreLiveFutures(market: MarketView | null) {
+  return !!market?.futures && !market.futures.wentLiveAt;
+}
@@ -0,0 +1,24 @@
+export type ModelPosition = "1" | "2" | "3" | "top3";
+
+export const MODEL_POSITION_LABELS: Record<ModelPosition, string> = {
+  "1": "1st",
+  "2": "2nd",
+  "3": "3rd",
+  top3: "Top 3",
+};
+
+export type ModelOdds = {
+  position: ModelPosition;
+  // Display names for uid-keyed history.
+  names: Record<string, string>;
+  probs: Record<string, number>;
+  odds: Record<string, number>;
+  strength: Record<string, number>;
+};
+
+export async function fetchModelOdds(position: ModelPosition) {
+  const response = await fetch(`/api/odds/model?position=${position}`);
+  const json = await response.json();
+  if (!response.ok || !json?.probs) throw new Error(json?.error || "Unable to load model odds");
+  return json as ModelOdds;
+}
@@ -0,0 +1,79 @@
+import type { BetMode, MarketType } from "./marketPool";
+
+export type BetOutcome = "open" | "won" | "lost" | "voided" | "carried_over";
+
+export const BET_OUTCOME_LABELS: Record<BetOutcome, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+  voided: "Voided",
+  carried_over: "Carried over",
+};
+
+export type BetSort = "createdAt" | "masterpieceId" | "amount" | "payout";
+
+export type WalletBet = {
+  id: string;
+  masterpieceId: number;
+  position: number;
+  market: string;
+  marketType: MarketType;
+  mode: BetMode;
+  pickedUid: string | null;
+  pickedName: string | null;
+  picks: string[] | null;
+  opponentUid: string | null;
+  opponentName: string | null;
+  odds: number | null;
+  amount: number;
+  txHash: string | null;
+  voidReason: string | null;
+  createdAt: string;
+  settled: boolean;
+  status: BetOutcome;
+  // What this bet got back: winnings, or the refund of a voided stake.
+  payout: number;
+  settlementTxHash: string | null;
+};
+
+export type WalletBetTotals = {
+  staked: number;
+  // Stake on markets that haven't settled yet.
+  pending: number;
+  returned: number;
+  net: number;
+};
+
+export type WalletBetsQuery = {
+  status?: BetOutcome | "";
+  marketType?: MarketType | "";
+  sort?: BetSort;
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+};
+
+export async function fetchWalletBets(wallet: string, query: WalletBetsQuery = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const response = await fetch(`/api/wallet/${wallet}/bets?${params}`);
+  const json = await response.json();
+  if (!response.ok || !json?.bets) throw new Error(json?.error || "Unable to load bets");
+  return json as { total: number; totals: WalletBetTotals; bets: WalletBet[] };
+}
+
+export function describeWalletBet(bet: WalletBet) {
+  const pick = bet.pickedName || bet.pickedUid;
+  switch (bet.marketType) {
+    case "trifecta":
+      return `Trifecta • ${pick}`;
+    case "top3":
+      return `Top 3 • ${pick}`;
+    case "h2h":
+      return `H2H • ${pick} over ${bet.opponentName || bet.opponentUid || "?"}`;
+    default:
+      return `P${bet.position} • ${pick}${bet.mode === "fixed" && bet.odds ? ` @ ${bet.odds.toFixed(2)}x` : ""}`;
+  }
+}
@@ -0,0 +1,69 @@
+export type PlayerAppearance = {
+  masterpieceId: number;
+  masterpieceName: string | null;
+  finished: boolean;
+  name: string;
+  position: number;
+  points: number;
+  players: number;
+};
+
+export type PlayerTrendPoint = {
+  masterpieceId: number;
+  endedAt: string;
+  // Null when the player wasn't in that masterpiece.
+  position: number | null;
+  strength: number | null;
+  probability: number | null;
+};
+
+export type PlayerProfile = {
+  uid: string;
+  name: string;
+  stats: {
+    appearances: number;
+    finished: number;
+    wins: number;
+    podiums: number;
+    winRate: number | null;
+    podiumRate: number | null;
+    averagePosition: number | null;
+  };
+  model: {
+    strength: number;
+    probability: number;
+    odds: number;
+    rank: number;
+    players: number;
+    trend: PlayerTrendPoint[];
+  } | null;
+  staked: {
+    total: number;
+    byMarket: Record<string, number>;
+  };
+  backers: {
+    bets: number;
+    bettors: number;
+    open: number;
+    won: number;
+    lost: number;
+    voided: number;
+    carriedOver: number;
+    settledStake: number;
+    returned: number;
+    winRate: number | null;
+    net: number;
+  };
+  appearances: PlayerAppearance[];
+};
+
+export function playerPath(uid: string) {
+  return `/player/${encodeURIComponent(uid)}`;
+}
+
+export async function fetchPlayer(uid: string) {
+  const response = await fetch(`/api/players/${encodeURIComponent(uid)}`);
+  const json = await response.json();
+  if (!response.ok || !json?.player) throw new Error(json?.error || "Unable to load player");
+  return json.player as PlayerProfile;
+}
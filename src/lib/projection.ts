@@ -0,0 +1,39 @@
+export type ProjectedPlayer = {
+  uid: string;
+  name: string;
+  position: number;
+  points: number;
+  ratePerMinute: number;
+  projectedPoints: number;
+  p1: number;
+  p2: number;
+  p3: number;
+  top3: number;
+};
+
+export type Projection = {
+  masterpieceId: number;
+  asOf: string;
+  finished: boolean;
+  samples: number;
+  collectedPoints: number;
+  requiredPoints: number;
+  ratePerMinute: number;
+  etaMinutes: number | null;
+  finishesAt: string | null;
+  simulations: number;
+  players: ProjectedPlayer[];
+};
+
+export async function fetchProjection(masterpieceId: number) {
+  const response = await fetch(`/api/masterpiece/${masterpieceId}/projection`);
+  const json = await response.json();
+  if (!response.ok || !json?.projection) throw new Error(json?.error || "Unable to load projection");
+  return json.projection as Projection;
+}
+
+export function formatChance(probability: number | undefined) {
+  if (probability === undefined) return "—";
+  if (probability > 0 && probability < 0.005) return "<1%";
+  return `${Math.round(probability * 100)}%`;
+}
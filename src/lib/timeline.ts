@@ -0,0 +1,22 @@
+export type TimelinePoint = {
+  at: string;
+  collectedPoints: number;
+  requiredPoints: number;
+  progress: number | null;
+  resources: { symbol: string; amount: number; target: number }[];
+  players: Record<string, number | null>;
+};
+
+export type Timeline = {
+  masterpieceId: number;
+  samples: number;
+  players: { uid: string; name: string }[];
+  points: TimelinePoint[];
+};
+
+export async function fetchTimeline(masterpieceId: number, top = 5) {
+  const response = await fetch(`/api/masterpiece/${masterpieceId}/timeline?top=${top}`);
+  const json = await response.json();
+  if (!response.ok || !json?.timeline) throw new Error(json?.error || "Unable to load timeline");
+  return json.timeline as Timeline;
+}
@@ -3,6 +3,7 @@ import { formatUnits as ethersFormatUnits, parseUnits as ethersParseUnits } from
 export const RONIN_CHAIN = {
   chainId: 2020,
   rpcUrl: "https://api.roninchain.com/rpc",
+  explorerUrl: "https://app.roninchain.com",
 };
 
 export const DYNW_TOKEN = {
@@ -39,3 +40,7 @@ export function shortAddress(address?: string | null) {
   if (!address) return "—";
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
+
+export function txUrl(txHash: string) {
+  return `${RONIN_CHAIN.explorerUrl}/tx/${txHash}`;
+}
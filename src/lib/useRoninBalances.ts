@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useState } from "react";
+import { useWalletEvents } from "./chainEvents";
 import { DYNW_TOKEN, WRON_TOKEN } from "./tokens";
 
 const ERC20_BALANCE_OF = "0x70a08231";
@@ -39,6 +40,10 @@ export function useRoninBalances(wallet: string | null, walletProvider: any) {
     }
   }, [wallet, walletProvider]);
 
+  useWalletEvents(wallet, () => {
+    refresh();
+  });
+
   useEffect(() => {
     if (!wallet || !walletProvider) {
       setRonBalance(null);
@@ -47,7 +52,8 @@ export function useRoninBalances(wallet: string | null, walletProvider: any) {
       return;
     }
     refresh();
-    const interval = setInterval(refresh, 15000);
+    // Indexed contract events trigger a refresh; the poll only catches other transfers.
+    const interval = setInterval(refresh, 60000);
     return () => clearInterval(interval);
   }, [refresh, wallet, walletProvider]);
 
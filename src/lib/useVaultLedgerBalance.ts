@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useState } from "react";
+import { useWalletEvents } from "./chainEvents";
 import { BrowserProvider, Contract } from "ethers";
 import { DYNW_TOKEN } from "./tokens";
 import { VAULT_LEDGER_ABI, VAULT_LEDGER_ADDRESS } from "./vaultLedger";
@@ -34,6 +35,10 @@ export function useVaultLedgerBalance(wallet: string | null, provider: any) {
     }
   }, [wallet, provider]);
 
+  useWalletEvents(wallet, () => {
+    refresh();
+  });
+
   useEffect(() => {
     if (!wallet || !provider) {
       setVaultBalance(null);
@@ -41,7 +46,8 @@ export function useVaultLedgerBalance(wallet: string | null, provider: any) {
       return;
     }
     refresh();
-    const interval = setInterval(refresh, 15000);
+    // Indexed contract events trigger a refresh; the poll only catches other transfers.
+    const interval = setInterval(refresh, 60000);
     return () => clearInterval(interval);
   }, [refresh, wallet, provider]);
 
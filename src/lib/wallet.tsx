@@ -1,5 +1,7 @@
 import EthereumProvider from "@walletconnect/ethereum-provider";
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { AUTH_LOGIN_KEY, AUTH_TOKEN_KEY } from "./api";
+import { getEthersSigner } from "./ethersSigner";
 import { RONIN_CHAIN } from "./tokens";
 
 type WalletContextValue = {
@@ -9,6 +11,11 @@ type WalletContextValue = {
   connectWallet: () => Promise<void>;
   disconnectWallet: () => Promise<void>;
   walletConnectEnabled: boolean;
+  authToken: string | null;
+  loginAddress: string | null;
+  isSignedIn: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => void;
 };
 
 const WalletContext = createContext<WalletContextValue | null>(null);
@@ -17,6 +24,8 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
   const [wallet, setWallet] = useState<string | null>(null);
   const [provider, setProvider] = useState<any>(null);
   const [chainId, setChainId] = useState<number | null>(null);
+  const [authToken, setAuthToken] = useState<string | null>(() => localStorage.getItem(AUTH_TOKEN_KEY));
+  const [loginAddress, setLoginAddress] = useState<string | null>(() => localStorage.getItem(AUTH_LOGIN_KEY));
   const walletConnectProjectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID as string | undefined;
   const walletConnectEnabled = Boolean(walletConnectProjectId);
 
@@ -62,6 +71,47 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     }
   }, [normalizeAddress, walletConnectProjectId]);
 
+  const signOut = useCallback(() => {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_LOGIN_KEY);
+    setAuthToken(null);
+    setLoginAddress(null);
+  }, []);
+
+  const signIn = useCallback(async () => {
+    if (!provider || !wallet) {
+      throw new Error("Connect your wallet before signing in.");
+    }
+
+    const nonceResponse = await fetch("/api/auth/nonce", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ walletAddress: wallet }),
+    });
+    const nonceJson = await nonceResponse.json();
+    if (!nonceResponse.ok || !nonceJson?.message) {
+      throw new Error(nonceJson?.error || "Unable to start sign-in.");
+    }
+
+    const { signer } = await getEthersSigner(provider);
+    const signature = await signer.signMessage(nonceJson.message);
+
+    const verifyResponse = await fetch("/api/auth/verify", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ walletAddress: wallet, signature }),
+    });
+    const verifyJson = await verifyResponse.json();
+    if (!verifyResponse.ok || !verifyJson?.token) {
+      throw new Error(verifyJson?.error || "Sign-in failed.");
+    }
+
+    localStorage.setItem(AUTH_TOKEN_KEY, verifyJson.token);
+    localStorage.setItem(AUTH_LOGIN_KEY, verifyJson.loginAddress);
+    setAuthToken(verifyJson.token);
+    setLoginAddress(verifyJson.loginAddress);
+  }, [provider, wallet]);
+
   const disconnectWallet = useCallback(async () => {
     if (provider?.disconnect) {
       await provider.disconnect();
@@ -69,7 +119,8 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     setWallet(null);
     setProvider(null);
     setChainId(null);
-  }, [provider]);
+    signOut();
+  }, [provider, signOut]);
 
   useEffect(() => {
     if (!provider) return;
@@ -103,6 +154,8 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     };
   }, [normalizeAddress, provider]);
 
+  const isSignedIn = Boolean(authToken && loginAddress);
+
   const value = useMemo(
     () => ({
       wallet,
@@ -111,8 +164,25 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
       connectWallet,
       disconnectWallet,
       walletConnectEnabled,
+      authToken,
+      loginAddress,
+      isSignedIn,
+      signIn,
+      signOut,
     }),
-    [wallet, provider, chainId, connectWallet, disconnectWallet, walletConnectEnabled]
+    [
+      wallet,
+      provider,
+      chainId,
+      connectWallet,
+      disconnectWallet,
+      walletConnectEnabled,
+      authToken,
+      loginAddress,
+      isSignedIn,
+      signIn,
+      signOut,
+    ]
   );
 
   return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
@@ -3,6 +3,9 @@ import { createRoot } from "react-dom/client";
 import { BrowserRouter, Route, Routes } from "react-router-dom";
 import "./index.css";
 import App from "./App.tsx";
+import Crash from "./pages/Crash.tsx";
+import MyBets from "./pages/MyBets.tsx";
+import Player from "./pages/Player.tsx";
 import Privacy from "./pages/Privacy.tsx";
 import Terms from "./pages/Terms.tsx";
 import { WalletProvider } from "./lib/wallet";
@@ -14,6 +17,9 @@ createRoot(document.getElementById('root')!).render(
         <Routes>
           <Route path="/" element={<App />} />
           <Route path="/overview" element={<App />} />
+          <Route path="/crash" element={<Crash />} />
+          <Route path="/my-bets" element={<MyBets />} />
+          <Route path="/player/:uid" element={<Player />} />
           <Route path="/terms" element={<Terms />} />
           <Route path="/privacy" element={<Privacy />} />
         </Routes>
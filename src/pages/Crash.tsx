@@ -60,7 +60,15 @@ function formatAmount(value: number) {
 }
 
 export default function Crash() {
-  const { wallet, provider: walletProvider, connectWallet, disconnectWallet, walletConnectEnabled } = useWallet();
+  const {
+    wallet,
+    provider: walletProvider,
+    connectWallet,
+    disconnectWallet,
+    walletConnectEnabled,
+    isSignedIn,
+    loginAddress: signedInAddress,
+  } = useWallet();
   const { dynwBalance, refresh: refreshBalances } = useRoninBalances(wallet, walletProvider);
   const [state, setState] = useState<CrashState>({ phase: "BETTING", roundId: null });
   const [multiplier, setMultiplier] = useState(0.5);
@@ -71,9 +79,7 @@ export default function Crash() {
   const [pending, setPending] = useState(false);
   const [verify, setVerify] = useState<CrashVerify | null>(null);
 
-  const [authToken] = useState(() => localStorage.getItem("cw_bets_token") || "");
-  const [loginAddress] = useState(() => localStorage.getItem("cw_bets_login") || "");
-  const isSignedIn = Boolean(authToken && loginAddress);
+  const loginAddress = signedInAddress || "";
 
   const currentMultiplier = state.phase === "CRASHED" && state.crashPoint ? state.crashPoint : multiplier;
   const normalizedMultiplier = Number.isFinite(currentMultiplier) ? currentMultiplier : 0.5;
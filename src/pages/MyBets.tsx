@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import "../App.css";
+import SiteFooter from "../components/SiteFooter";
+import type { MarketType } from "../lib/marketPool";
+import {
+  BET_OUTCOME_LABELS,
+  describeWalletBet,
+  fetchWalletBets,
+  type BetOutcome,
+  type BetSort,
+  type WalletBet,
+  type WalletBetTotals,
+} from "../lib/myBets";
+import { shortAddress, txUrl } from "../lib/tokens";
+import { useWallet } from "../lib/wallet";
+
+const PAGE_SIZE = 25;
+
+const MARKET_LABELS: Record<MarketType, string> = {
+  position: "Position",
+  trifecta: "Trifecta",
+  top3: "Top 3",
+  h2h: "Head-to-head",
+};
+
+const SORT_LABELS: Record<BetSort, string> = {
+  createdAt: "Placed",
+  masterpieceId: "Masterpiece",
+  amount: "Stake",
+  payout: "Payout",
+};
+
+function formatAmount(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function TxLink({ txHash }: { txHash: string | null }) {
+  if (!txHash) return <>—</>;
+  return (
+    <a href={txUrl(txHash)} target="_blank" rel="noreferrer">
+      {shortAddress(txHash)}
+    </a>
+  );
+}
+
+export default function MyBets() {
+  const { wallet, connectWallet } = useWallet();
+  const [status, setStatus] = useState<BetOutcome | "">("");
+  const [marketType, setMarketType] = useState<MarketType | "">("");
+  const [sort, setSort] = useState<BetSort>("createdAt");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [offset, setOffset] = useState(0);
+  const [bets, setBets] = useState<WalletBet[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<WalletBetTotals | null>(null);
+  const [error, setError] = useState("");
+
+  // Any change to the filters or the sort goes back to the first page.
+  function refilter(apply: () => void) {
+    apply();
+    setOffset(0);
+  }
+
+  useEffect(() => {
+    if (!wallet) return;
+    let cancelled = false;
+    setError("");
+    fetchWalletBets(wallet, { status, marketType, sort, order, limit: PAGE_SIZE, offset })
+      .then((page) => {
+        if (cancelled) return;
+        setBets(page.bets);
+        setTotal(page.total);
+        setTotals(page.totals);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, status, marketType, sort, order, offset]);
+
+  return (
+    <div className="app-shell">
+      <header className="topbar">
+        <h1>My Bets</h1>
+        <div className="topbar-actions">
+          <Link to="/">Back to Bets</Link>
+          {!wallet && <button onClick={connectWallet}>Connect Wallet</button>}
+        </div>
+      </header>
+
+      {!wallet && <p className="muted">Connect a wallet to see its bets.</p>}
+
+      {wallet && (
+        <section className="card">
+          {totals && (
+            <p>
+              Staked {formatAmount(totals.staked)} · returned {formatAmount(totals.returned)} · net{" "}
+              {totals.net >= 0 ? "+" : ""}
+              {formatAmount(totals.net)}
+              {totals.pending > 0 && <> · {formatAmount(totals.pending)} still open</>}
+            </p>
+          )}
+          <div className="bet-filters">
+            <label>
+              Status
+              <select value={status} onChange={(e) => refilter(() => setStatus(e.target.value as BetOutcome | ""))}>
+                <option value="">All</option>
+                {Object.entries(BET_OUTCOME_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Market
+              <select value={marketType} onChange={(e) => refilter(() => setMarketType(e.target.value as MarketType | ""))}>
+                <option value="">All</option>
+                {Object.entries(MARKET_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Sort by
+              <select value={sort} onChange={(e) => refilter(() => setSort(e.target.value as BetSort))}>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button onClick={() => refilter(() => setOrder(order === "desc" ? "asc" : "desc"))}>
+              {order === "desc" ? "Newest / largest first" : "Oldest / smallest first"}
+            </button>
+          </div>
+
+          {error && <p className="muted">{error}</p>}
+          {!error && total === 0 && <p className="muted">No bets yet.</p>}
+          {bets.length > 0 && (
+            <table>
+              <thead>
+                <tr>
+                  <th>Masterpiece</th>
+                  <th>Bet</th>
+                  <th>Stake</th>
+                  <th>Tx</th>
+                  <th>Status</th>
+                  <th>Payout</th>
+                  <th>Settlement</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bets.map((bet) => (
+                  <tr key={bet.id}>
+                    <td>#{bet.masterpieceId}</td>
+                    <td>{describeWalletBet(bet)}</td>
+                    <td>{formatAmount(bet.amount)}</td>
+                    <td>
+                      <TxLink txHash={bet.txHash} />
+                    </td>
+                    <td title={bet.voidReason || undefined}>{BET_OUTCOME_LABELS[bet.status]}</td>
+                    <td>{bet.settled ? formatAmount(bet.payout) : "—"}</td>
+                    <td>
+                      <TxLink txHash={bet.settlementTxHash} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {total > PAGE_SIZE && (
+            <div className="pager">
+              <button disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+                Previous
+              </button>
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <button disabled={offset + PAGE_SIZE >= total} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                Next
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      <SiteFooter />
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import "../App.css";
+import SiteFooter from "../components/SiteFooter";
+import { fetchPlayer, type PlayerProfile } from "../lib/players";
+import { formatChance } from "../lib/projection";
+
+const MARKET_LABELS: Record<string, string> = {
+  position: "Position",
+  trifecta: "Trifecta",
+  top3: "Top 3",
+  h2h: "Head-to-head",
+};
+
+function formatAmount(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function formatRate(value: number | null) {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+export default function Player() {
+  const { uid = "" } = useParams();
+  const [player, setPlayer] = useState<PlayerProfile | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlayer(null);
+    setError("");
+    fetchPlayer(uid)
+      .then((next) => {
+        if (!cancelled) setPlayer(next);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  return (
+    <div className="app-shell">
+      <header className="topbar">
+        <h1>{player?.name || uid}</h1>
+        <div className="topbar-actions">
+          <Link to="/">Back to Bets</Link>
+        </div>
+      </header>
+
+      {error && <p className="muted">{error}</p>}
+      {!error && !player && <p className="muted">Loading…</p>}
+
+      {player && (
+        <>
+          <section className="card">
+            <h2>Record</h2>
+            <p>
+              {player.stats.appearances} masterpieces ({player.stats.finished} finished) · {player.stats.wins} wins ·{" "}
+              {player.stats.podiums} podiums
+            </p>
+            <table>
+              <thead>
+                <tr>
+                  <th>Win %</th>
+                  <th>Podium %</th>
+                  <th>Avg Place</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>{formatRate(player.stats.winRate)}</td>
+                  <td>{formatRate(player.stats.podiumRate)}</td>
+                  <td>{player.stats.averagePosition === null ? "—" : player.stats.averagePosition.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </section>
+
+          <section className="card">
+            <h2>Model</h2>
+            {!player.model && <p className="muted">Not in the model history yet.</p>}
+            {player.model && (
+              <>
+                <p>
+                  Strength {player.model.strength.toFixed(3)} · rank {player.model.rank} of {player.model.players} · P(1st){" "}
+                  {formatChance(player.model.probability)} · fair odds {player.model.odds.toFixed(2)}x
+                </p>
+                <h3>Trend</h3>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>After</th>
+                      <th>Place</th>
+                      <th>Strength</th>
+                      <th>P(1st)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {player.model.trend.map((point) => (
+                      <tr key={point.masterpieceId}>
+                        <td>#{point.masterpieceId}</td>
+                        <td>{point.position === null ? "—" : `#${point.position}`}</td>
+                        <td>{point.strength === null ? "—" : point.strength.toFixed(3)}</td>
+                        <td>{formatChance(point.probability ?? undefined)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </section>
+
+          <section className="card">
+            <h2>Bets on {player.name}</h2>
+            <p>
+              {formatAmount(player.staked.total)} DYNW staked ·{" "}
+              {Object.entries(player.staked.byMarket)
+                .filter(([, amount]) => amount > 0)
+                .map(([market, amount]) => `${MARKET_LABELS[market] || market} ${formatAmount(amount)}`)
+                .join(" · ") || "no bets yet"}
+            </p>
+            <p>
+              {player.backers.bettors} bettors, {player.backers.bets} bets: {player.backers.won} won,{" "}
+              {player.backers.lost + player.backers.carriedOver} lost, {player.backers.open} open,{" "}
+              {player.backers.voided} voided
+            </p>
+            <p>
+              Backers staked {formatAmount(player.backers.settledStake)} on settled markets and got{" "}
+              {formatAmount(player.backers.returned)} back (net {player.backers.net >= 0 ? "+" : ""}
+              {formatAmount(player.backers.net)}).
+            </p>
+          </section>
+
+          <section className="card">
+            <h2>Masterpieces</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Masterpiece</th>
+                  <th>Place</th>
+                  <th>Points</th>
+                </tr>
+              </thead>
+              <tbody>
+                {player.appearances.map((appearance) => (
+                  <tr key={appearance.masterpieceId}>
+                    <td>
+                      #{appearance.masterpieceId}
+                      {appearance.masterpieceName && <> {appearance.masterpieceName}</>}
+                      {!appearance.finished && <span className="muted"> (running)</span>}
+                    </td>
+                    <td>
+                      #{appearance.position} of {appearance.players}
+                    </td>
+                    <td>{appearance.points.toLocaleString("en-US")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </>
+      )}
+
+      <SiteFooter />
+    </div>
+  );
+}
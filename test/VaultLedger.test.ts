@@ -126,8 +126,9 @@ describe("VaultLedger", () => {
     await token.depositToVault(ethers.parseEther("2"));
     await token.setReenter(true, ethers.parseEther("1"));
 
-    await expect(token.withdrawFromVault(ethers.parseEther("1"))).to.be.revertedWith(
-      "ReentrancyGuard: reentrant call",
+    await expect(token.withdrawFromVault(ethers.parseEther("1"))).to.be.revertedWithCustomError(
+      vault,
+      "ReentrancyGuardReentrantCall",
     );
   });
 });
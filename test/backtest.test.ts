@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { backtestModelOdds, fitModelParams } from "../server/backtest.js";
+
+function mp(day: number, results: [string, number][]) {
+  return {
+    endedAt: `2025-01-0${day}T00:00:00.000Z`,
+    results: results.map(([player, position]) => ({ player, position })),
+  };
+}
+
+// Keyed out of order: the backtest replays by `endedAt`.
+const history = {
+  "13": mp(3, [
+    ["bo", 1],
+    ["ana", 2],
+    ["cy", 3],
+  ]),
+  "11": mp(1, [
+    ["ana", 1],
+    ["bo", 2],
+    ["cy", 3],
+  ]),
+  "14": mp(4, [
+    ["ana", 1],
+    ["bo", 1],
+    ["cy", 3],
+  ]),
+  "12": mp(2, [
+    ["ana", 1],
+    ["cy", 2],
+    ["bo", 3],
+  ]),
+};
+
+function softmax(strength: Record<string, number>) {
+  const total = Object.values(strength).reduce((sum, s) => sum + Math.exp(s), 0);
+  return Object.fromEntries(Object.entries(strength).map(([player, s]) => [player, Math.exp(s) / total]));
+}
+
+describe("model odds backtest", () => {
+  // No decay, no prior, no points and tau 1: a player's strength is the sum of
+  // 1/sqrt(place) over the masterpieces before, and the odds its softmax.
+  const plain = { lambda: 0, tau: 1, k: 0, usePoints: false };
+  const [first, second, third] = [1, 1 / Math.SQRT2, 1 / Math.sqrt(3)];
+
+  it("scores each masterpiece after the training ones on a model of the earlier ones", () => {
+    const report = backtestModelOdds(history, plain, { minTraining: 2 });
+    expect(report).to.include({ masterpieces: 4, scored: 2 });
+
+    // #13: bo wins after #11 and #12.
+    const p13 = softmax({ ana: 2 * first, bo: second + third, cy: third + second });
+    const logLoss13 = -Math.log(p13.bo);
+    const brier13 = p13.ana ** 2 + (p13.bo - 1) ** 2 + p13.cy ** 2;
+    // #14: ana and bo dead-heat, each holding half the win.
+    const p14 = softmax({ ana: 2 * first + second, bo: second + third + first, cy: 2 * third + second });
+    const logLoss14 = -0.5 * Math.log(p14.ana) - 0.5 * Math.log(p14.bo);
+    const brier14 = (p14.ana - 0.5) ** 2 + (p14.bo - 0.5) ** 2 + p14.cy ** 2;
+
+    expect(report.logLoss).to.be.closeTo((logLoss13 + logLoss14) / 2, 1e-12);
+    expect(report.brier).to.be.closeTo((brier13 + brier14) / 2, 1e-12);
+    expect(report.uniformLogLoss).to.be.closeTo(Math.log(3), 1e-12);
+  });
+
+  it("buckets every scored prediction for calibration", () => {
+    const report = backtestModelOdds(history, plain, { minTraining: 2, bucketCount: 4 });
+    const count = report.calibration.reduce((sum: number, bucket: { count: number }) => sum + bucket.count, 0);
+    const observed = report.calibration.reduce(
+      (sum: number, bucket: { count: number; observed: number }) => sum + bucket.count * bucket.observed,
+      0
+    );
+    expect(count).to.equal(6);
+    // One win handed out per scored masterpiece.
+    expect(observed).to.be.closeTo(2, 1e-12);
+  });
+
+  it("scores nothing without enough history", () => {
+    const report = backtestModelOdds(history, plain, { minTraining: 4 });
+    expect(report).to.include({ scored: 0, logLoss: null, brier: null });
+  });
+
+  it("picks the grid combination with the lowest log-loss", async () => {
+    const grid = { lambda: [0, 1], tau: [0.5, 1, 2], k: [0] };
+    const fit = await fitModelParams(history, { grid, minTraining: 2 });
+    expect(fit.evaluated).to.equal(6);
+
+    const combos = grid.lambda.flatMap((lambda) => grid.tau.map((tau) => ({ lambda, tau, k: 0, usePoints: true })));
+    const scores = combos.map((params) => backtestModelOdds(history, params, { minTraining: 2 }).logLoss);
+    const bestIndex = scores.indexOf(Math.min(...scores));
+
+    expect(fit.best.params).to.deep.equal(combos[bestIndex]);
+    expect(fit.best.logLoss).to.equal(scores[bestIndex]);
+    const ranked = fit.ranked.map((entry: { logLoss: number }) => entry.logLoss);
+    expect(ranked).to.deep.equal([...scores].sort((a, b) => a - b));
+  });
+
+  it("has no best fit when nothing could be scored", async () => {
+    const fit = await fitModelParams(history, { grid: { lambda: [0], tau: [1], k: [0] }, minTraining: 10 });
+    expect(fit.best).to.equal(null);
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import { BET_OUTCOME, betOutcomes, walletBets } from "../server/betOutcomes.js";
+import { settleTop3Market } from "../server/betting.js";
+
+const MP = 42;
+
+function row(position: number, uid: string, masterpiecePoints: number) {
+  return { position, masterpiecePoints, profile: { uid, displayName: uid.toUpperCase() } };
+}
+
+function bet(id: string, user: string, amount: number, fields: Record<string, unknown>) {
+  return { id, masterpieceId: MP, position: 1, user, amount, ...fields };
+}
+
+describe("bet outcomes", () => {
+  // bo, cy and di tie over 2nd to 4th, so all three are in the top 3.
+  const threeWay = [row(1, "ana", 500), row(2, "bo", 400), row(3, "cy", 400), row(4, "di", 400), row(5, "ed", 50)];
+
+  it("counts a top-3 pick tied across 3rd place as won", () => {
+    const bets = [
+      bet("b1", "u1", 30, { marketType: "top3", pickedUid: "ana" }),
+      bet("b2", "u1", 30, { marketType: "top3", pickedUid: "di" }),
+      bet("b3", "u2", 40, { marketType: "top3", pickedUid: "ed" }),
+    ];
+    const result = settleTop3Market({ masterpieceId: MP, position: 1, bets, leaderboard: threeWay });
+    expect(result.winnerUid.split(",")).to.not.include("di");
+
+    const outcomes = betOutcomes({ bets, results: { [MP]: { results: [result] } }, settlements: {} });
+    expect(outcomes.get("b1")).to.deep.include({ status: BET_OUTCOME.WON, payout: 50 });
+    expect(outcomes.get("b2")).to.deep.include({ status: BET_OUTCOME.WON, payout: 50 });
+    expect(outcomes.get("b3")).to.deep.include({ status: BET_OUTCOME.LOST, payout: 0 });
+  });
+
+  it("counts a top-3 pick below the tie as lost", () => {
+    const bets = [
+      bet("b1", "u1", 30, { marketType: "top3", pickedUid: "ana" }),
+      bet("b2", "u1", 30, { marketType: "top3", pickedUid: "ed" }),
+    ];
+    const result = settleTop3Market({ masterpieceId: MP, position: 1, bets, leaderboard: threeWay });
+
+    const outcomes = betOutcomes({ bets, results: { [MP]: { results: [result] } }, settlements: {} });
+    expect(outcomes.get("b1")).to.deep.include({ status: BET_OUTCOME.WON, payout: 60 });
+    expect(outcomes.get("b2")).to.deep.include({ status: BET_OUTCOME.LOST, payout: 0 });
+  });
+
+  it("finds a wallet's bets and payouts by the address that staked them", () => {
+    const staker = "0x" + "Ab".repeat(20);
+    const bets = [
+      bet("b1", staker, 30, { marketType: "top3", pickedUid: "ana" }),
+      // Older rows carry only the login address.
+      bet("b2", "", 10, { loginAddress: staker.toLowerCase(), marketType: "top3", pickedUid: "ed" }),
+    ];
+    const result = settleTop3Market({ masterpieceId: MP, position: 1, bets, leaderboard: threeWay });
+
+    const page = walletBets(staker.toLowerCase(), { bets, results: { [MP]: { results: [result] } }, settlements: {} });
+    expect(page.bets.map((row: { id: string }) => row.id)).to.have.members(["b1", "b2"]);
+    expect(page.totals).to.include({ staked: 40, returned: 40 });
+    expect(page.bets.find((row: { id: string }) => row.id === "b1")).to.include({ status: BET_OUTCOME.WON, payout: 40 });
+  });
+});
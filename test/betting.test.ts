@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import {
+  deadHeatShares,
+  settleFixedOddsMarket,
+  settleMarket,
+  settleTop3Market,
+  settleTrifectaMarket,
+  tieGroups,
+} from "../server/betting.js";
+
+const MP = 42;
+
+function row(position: number, uid: string, masterpiecePoints: number) {
+  return { position, masterpiecePoints, profile: { uid, displayName: uid.toUpperCase() } };
+}
+
+function bet(user: string, amount: number, fields: Record<string, unknown>) {
+  return { masterpieceId: MP, position: 1, user, amount, ...fields };
+}
+
+describe("betting settlement dead heats", () => {
+  const twoWay = [row(1, "ana", 500), row(2, "bo", 500), row(3, "cy", 300), row(4, "di", 100)];
+  const threeWay = [row(1, "ana", 500), row(2, "bo", 400), row(3, "cy", 400), row(4, "di", 400), row(5, "ed", 50)];
+
+  it("groups players tied on points whatever order the API returns", () => {
+    const shuffled = [twoWay[2], twoWay[1], twoWay[3], twoWay[0]];
+    const groups = tieGroups(shuffled);
+    expect(groups.map((g: { from: number; to: number }) => [g.from, g.to])).to.deep.equal([
+      [1, 2],
+      [3, 3],
+      [4, 4],
+    ]);
+  });
+
+  it("shares a place between the players tied across it", () => {
+    const { shares, ties } = deadHeatShares(threeWay, 3);
+    expect(shares.get("ana")).to.equal(1);
+    expect(shares.get("bo")).to.be.closeTo(2 / 3, 1e-9);
+    expect(shares.get("di")).to.be.closeTo(2 / 3, 1e-9);
+    expect(shares.has("ed")).to.equal(false);
+    expect(ties).to.have.length(1);
+    expect(ties[0]).to.include({ from: 2, to: 4 });
+  });
+
+  it("settles a position pool without a tie as before", () => {
+    const bets = [bet("u1", 30, { pickedUid: "ana" }), bet("u2", 70, { pickedUid: "bo" })];
+    const result = settleMarket({ masterpieceId: MP, position: 1, bets, leaderboard: [row(1, "ana", 9), row(2, "bo", 5)] });
+    expect(result.status).to.equal("PAID");
+    expect(result.payouts).to.deep.equal({ u1: 100 });
+    expect(result).to.not.have.property("deadHeat");
+  });
+
+  it("splits a position pool equally between a 2-way dead heat", () => {
+    const bets = [
+      bet("u1", 10, { pickedUid: "ana" }),
+      bet("u2", 30, { pickedUid: "bo" }),
+      bet("u3", 60, { pickedUid: "cy" }),
+    ];
+    const result = settleMarket({ masterpieceId: MP, position: 1, bets, leaderboard: twoWay });
+    expect(result.status).to.equal("DEAD_HEAT");
+    expect(result.payouts).to.deep.equal({ u1: 50, u2: 50 });
+    expect(result.houseTake).to.equal(0);
+    expect(result.winnerName).to.equal("ANA & BO");
+    expect(result.deadHeat[0]).to.deep.include({ from: 1, to: 2, ratio: 0.5 });
+  });
+
+  it("sends the part of an unbacked tied player to house and carryover", () => {
+    const bets = [bet("u1", 10, { pickedUid: "ana" }), bet("u3", 91, { pickedUid: "cy" })];
+    const result = settleMarket({ masterpieceId: MP, position: 2, bets: bets.map((b) => ({ ...b, position: 2 })), leaderboard: twoWay });
+    expect(result.payouts).to.deep.equal({ u1: 51 });
+    expect(result.houseTake + result.carryover).to.equal(50);
+    expect(result.houseTake).to.equal(25);
+  });
+
+  it("splits a position pool three ways and pays every unit", () => {
+    const bets = [
+      bet("u1", 20, { pickedUid: "bo" }),
+      bet("u2", 10, { pickedUid: "cy" }),
+      bet("u3", 5, { pickedUid: "di" }),
+      bet("u4", 15, { pickedUid: "di" }),
+      bet("u5", 50, { pickedUid: "ana" }),
+    ].map((b) => ({ ...b, position: 3 }));
+    const result = settleMarket({ masterpieceId: MP, position: 3, bets, leaderboard: threeWay });
+    expect(result.status).to.equal("DEAD_HEAT");
+    expect(result.payouts).to.deep.equal({ u1: 34, u2: 33, u3: 8, u4: 25 });
+    expect(Object.values(result.payouts).reduce((a: number, b) => a + Number(b), 0)).to.equal(100);
+    expect(result.deadHeat[0].players).to.have.length(3);
+  });
+
+  it("pays fixed-odds stakes at the dead-heat ratio", () => {
+    const bets = [
+      bet("u1", 100, { mode: "fixed", odds: 3, pickedUid: "ana" }),
+      bet("u2", 50, { mode: "fixed", odds: 4, pickedUid: "bo" }),
+      bet("u3", 40, { mode: "fixed", odds: 2, pickedUid: "cy" }),
+    ];
+    const result = settleFixedOddsMarket({ masterpieceId: MP, position: 1, bets, leaderboard: twoWay });
+    expect(result.status).to.equal("DEAD_HEAT");
+    expect(result.payouts).to.deep.equal({ u1: 150, u2: 100 });
+    expect(result.houseTopUp).to.equal(60);
+  });
+
+  it("reduces top-3 shares for a 3-way tie across 3rd place", () => {
+    const bets = [
+      bet("u1", 30, { marketType: "top3", pickedUid: "ana" }),
+      bet("u2", 30, { marketType: "top3", pickedUid: "di" }),
+      bet("u3", 40, { marketType: "top3", pickedUid: "ed" }),
+    ];
+    const result = settleTop3Market({ masterpieceId: MP, position: 1, bets, leaderboard: threeWay });
+    expect(result.status).to.equal("DEAD_HEAT");
+    // u1 holds a full place, u2 two thirds of one: 30 : 20 of the pot of 100.
+    expect(result.payouts).to.deep.equal({ u1: 60, u2: 40 });
+  });
+
+  it("accepts any order of the tied players in a trifecta", () => {
+    const bets = [
+      bet("u1", 10, { marketType: "trifecta", picks: ["ana", "bo", "cy"] }),
+      bet("u2", 10, { marketType: "trifecta", picks: ["bo", "ana", "cy"] }),
+      bet("u3", 10, { marketType: "trifecta", picks: ["ana", "cy", "bo"] }),
+    ];
+    const result = settleTrifectaMarket({ masterpieceId: MP, position: 1, bets, leaderboard: twoWay });
+    expect(result.status).to.equal("DEAD_HEAT");
+    expect(result.payouts).to.deep.equal({ u1: 15, u2: 15 });
+  });
+
+  it("counts a 3-way tie over 2nd to 4th in the trifecta", () => {
+    const bets = [
+      bet("u1", 12, { marketType: "trifecta", picks: ["ana", "di", "bo"] }),
+      bet("u2", 12, { marketType: "trifecta", picks: ["ana", "bo", "ed"] }),
+    ];
+    const result = settleTrifectaMarket({ masterpieceId: MP, position: 1, bets, leaderboard: threeWay });
+    expect(result.payouts).to.deep.equal({ u1: 24 });
+    expect(result.deadHeat[0].ratio).to.be.closeTo(1 / 6, 1e-9);
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { GraphQLError, GraphQLRequestError, createGraphQLClient } from "../server/graphqlClient.js";
+
+const QUERY = "query Masterpiece($id: ID) { masterpiece(id: $id) { id } }";
+
+type Reply = { status?: number; body?: unknown; headers?: Record<string, string> } | Error;
+
+function fakeFetch(replies: Reply[]) {
+  const calls: unknown[] = [];
+  let active = 0;
+  let maxActive = 0;
+  const fetchImpl = async (_url: string, init: { body: string }) => {
+    calls.push(JSON.parse(init.body));
+    active += 1;
+    maxActive = Math.max(maxActive, active);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    active -= 1;
+    const reply = replies.length > 1 ? replies.shift()! : replies[0];
+    if (reply instanceof Error) throw reply;
+    const status = reply.status ?? 200;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => reply.headers?.[name] ?? null },
+      json: async () => reply.body,
+    };
+  };
+  return { fetchImpl, calls, maxActive: () => maxActive };
+}
+
+function client(fetchImpl: unknown, options: Record<string, unknown> = {}) {
+  return createGraphQLClient({
+    url: "http://graphql.test",
+    fetchImpl,
+    baseDelayMs: 1,
+    maxDelayMs: 2,
+    logger: { error() {} },
+    ...options,
+  });
+}
+
+const ok = (id: number) => ({ body: { data: { masterpiece: { id } } } });
+
+describe("GraphQL client", () => {
+  it("serves repeated queries from the cache and counts hits", async () => {
+    const upstream = fakeFetch([ok(1)]);
+    const graphql = client(upstream.fetchImpl);
+    await graphql.request(QUERY, { id: 1 });
+    const second = await graphql.request(QUERY, { id: 1 });
+    expect(second.data.masterpiece.id).to.equal(1);
+    expect(upstream.calls).to.have.length(1);
+    expect(graphql.getStats()).to.include({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it("shares one upstream request between concurrent callers", async () => {
+    const upstream = fakeFetch([ok(2)]);
+    const graphql = client(upstream.fetchImpl);
+    await Promise.all([1, 2, 3].map(() => graphql.request(QUERY, { id: 2 })));
+    expect(upstream.calls).to.have.length(1);
+    expect(graphql.getStats().shared).to.equal(2);
+  });
+
+  it("returns stale data while refreshing it in the background", async () => {
+    const upstream = fakeFetch([ok(1), ok(99)]);
+    const graphql = client(upstream.fetchImpl, { ttlMs: 0, staleMs: 60_000 });
+    await graphql.request(QUERY, { id: 1 });
+    const stale = await graphql.request(QUERY, { id: 1 });
+    expect(stale.data.masterpiece.id).to.equal(1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(upstream.calls).to.have.length(2);
+    const refreshed = await graphql.request(QUERY, { id: 1 });
+    expect(refreshed.data.masterpiece.id).to.equal(99);
+    expect(graphql.getStats().staleHits).to.equal(2);
+  });
+
+  it("retries network errors and 5xx responses with backoff", async () => {
+    const upstream = fakeFetch([new Error("socket hang up"), { status: 503, body: null }, ok(3)]);
+    const graphql = client(upstream.fetchImpl);
+    const json = await graphql.request(QUERY, { id: 3 });
+    expect(json.data.masterpiece.id).to.equal(3);
+    expect(graphql.getStats().retries).to.equal(2);
+  });
+
+  it("gives up after maxRetries with a typed request error", async () => {
+    const upstream = fakeFetch([{ status: 502, body: null }]);
+    const graphql = client(upstream.fetchImpl, { maxRetries: 1 });
+    const error = await graphql.request(QUERY, { id: 4 }).catch((e: unknown) => e);
+    expect(error).to.be.instanceOf(GraphQLRequestError);
+    expect(error).to.include({ status: 502, retryable: true });
+    expect(upstream.calls).to.have.length(2);
+  });
+
+  it("keeps the GraphQL errors array and doesn't retry or cache it", async () => {
+    const errors = [{ message: "Masterpiece not found", path: ["masterpiece"] }];
+    const upstream = fakeFetch([{ body: { errors, data: null } }]);
+    const graphql = client(upstream.fetchImpl);
+    const error = await graphql.request(QUERY, { id: 5 }).catch((e: unknown) => e);
+    expect(error).to.be.instanceOf(GraphQLError);
+    expect((error as GraphQLError).errors).to.deep.equal(errors);
+    expect((error as Error).message).to.contain("Masterpiece not found");
+    await graphql.request(QUERY, { id: 5 }).catch(() => undefined);
+    expect(upstream.calls).to.have.length(2);
+  });
+
+  it("never runs more than `concurrency` upstream requests at once", async () => {
+    const upstream = fakeFetch([ok(6)]);
+    const graphql = client(upstream.fetchImpl, { concurrency: 2 });
+    await Promise.all([1, 2, 3, 4, 5, 6].map((id) => graphql.request(QUERY, { id })));
+    expect(upstream.calls).to.have.length(6);
+    expect(upstream.maxActive()).to.equal(2);
+  });
+});
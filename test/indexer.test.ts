@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { createEventIndexer } from "../server/indexer.js";
+
+type ChainEvent = { id: string; event: string; betId: string; blockNumber: number; removed: boolean };
+
+describe("event indexer", () => {
+  async function deployFixture() {
+    const [, operator, treasury, user] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const dynw = await MockERC20.deploy("DynoWager", "DYNW");
+    await dynw.waitForDeployment();
+
+    const MasterpiecePool = await ethers.getContractFactory("MasterpiecePool");
+    const pool = await MasterpiecePool.deploy(await dynw.getAddress(), treasury.address, operator.address);
+    await pool.waitForDeployment();
+
+    await dynw.mint(user.address, ethers.parseEther("100"));
+    await dynw.connect(user).approve(await pool.getAddress(), ethers.parseEther("100"));
+
+    const store: { chainEvents: Record<string, ChainEvent>; indexerCheckpoints: Record<string, unknown> } = {
+      chainEvents: {},
+      indexerCheckpoints: {},
+    };
+    const indexer = createEventIndexer({
+      store,
+      persist: () => undefined,
+      provider: ethers.provider,
+      contracts: { masterpiecePool: await pool.getAddress() },
+      startBlock: await ethers.provider.getBlockNumber(),
+      reorgDepth: 2,
+      logger: null,
+    });
+
+    async function placeBet(label: string) {
+      const betId = ethers.id(`cw-bet:${label}`);
+      const tx = await pool.connect(user).placeBet(betId, 1, ethers.parseEther("1"));
+      const receipt = await tx.wait();
+      return { betId, blockNumber: receipt!.blockNumber };
+    }
+
+    function eventsFor(betId: string) {
+      return Object.values(store.chainEvents).filter((event) => event.betId === betId.toLowerCase());
+    }
+
+    return { store, indexer, placeBet, eventsFor };
+  }
+
+  it("indexes BetPlaced events", async () => {
+    const { indexer, placeBet } = await deployFixture();
+    const { betId, blockNumber } = await placeBet("1:1");
+
+    await indexer.poll();
+
+    const { total, events } = indexer.betEvents(betId);
+    expect(total).to.equal(1);
+    expect(events[0]).to.include({ event: "BetPlaced", blockNumber, removed: false });
+    expect(indexer.getStatus().checkpoint.blockNumber).to.equal(blockNumber);
+  });
+
+  it("removes events past the fork point and indexes the new chain", async () => {
+    const { indexer, placeBet, eventsFor } = await deployFixture();
+    const kept = await placeBet("1:1");
+    const snapshot = await network.provider.send("evm_snapshot");
+    const orphaned = await placeBet("2:1");
+    await indexer.poll();
+    expect(eventsFor(orphaned.betId)).to.have.length(1);
+
+    // Replace the block holding the second bet with one holding a different bet, then
+    // build past the old checkpoint so only its hash gives the reorg away.
+    await network.provider.send("evm_revert", [snapshot]);
+    const replacement = await placeBet("3:1");
+    expect(replacement.blockNumber).to.equal(orphaned.blockNumber);
+    await network.provider.send("evm_mine");
+
+    await indexer.poll();
+
+    expect(indexer.getStatus().reorgs).to.equal(1);
+    expect(eventsFor(orphaned.betId).map((event) => event.removed)).to.deep.equal([true]);
+    expect(indexer.betEvents(orphaned.betId).total).to.equal(0);
+    // The bet below the fork was rolled back with the reorg depth and scanned again.
+    expect(indexer.betEvents(kept.betId).events[0]).to.include({ blockNumber: kept.blockNumber, removed: false });
+    expect(indexer.betEvents(replacement.betId).events[0]).to.include({
+      blockNumber: replacement.blockNumber,
+      removed: false,
+    });
+    expect(indexer.getStatus().checkpoint.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+  });
+
+  it("rolls back when the chain is shorter than the checkpoint", async () => {
+    const { indexer, placeBet, eventsFor } = await deployFixture();
+    const snapshot = await network.provider.send("evm_snapshot");
+    const orphaned = await placeBet("1:1");
+    await indexer.poll();
+
+    await network.provider.send("evm_revert", [snapshot]);
+    await indexer.poll();
+
+    expect(indexer.getStatus().reorgs).to.equal(1);
+    expect(eventsFor(orphaned.betId).map((event) => event.removed)).to.deep.equal([true]);
+    expect(indexer.getStatus().checkpoint.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+  });
+});
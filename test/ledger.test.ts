@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+import { HOUSE_ACCOUNT, LEDGER_ENTRY_TYPES, createLedger } from "../server/ledger.js";
+
+const MP = 42;
+const ALICE = "0x" + "a".repeat(40);
+const BOB = "0x" + "b".repeat(40);
+
+type Entry = { id: string; type: string; fromAccount: string; toAccount: string; amountWei: string };
+
+function wei(amount: number) {
+  return parseUnits(String(amount), 18);
+}
+
+function bet(id: string, user: string, amount: number, fields: Record<string, unknown> = {}) {
+  return { id, betId: `0x${MP}01`, masterpieceId: MP, position: 1, user, amount, ...fields };
+}
+
+function record(fields: Record<string, unknown>) {
+  return {
+    id: `${MP}:1`,
+    masterpieceId: MP,
+    position: 1,
+    market: "pool",
+    betId: `0x${MP}01`,
+    status: "confirmed",
+    winners: [],
+    payoutsWei: [],
+    houseTakeWei: "0",
+    carryoverAddedWei: "0",
+    houseTopUpWei: "0",
+    ...fields,
+  };
+}
+
+function entryById(entries: () => Entry[], id: string) {
+  const entry = entries().find((candidate) => candidate.id === id);
+  expect(entry, id).to.not.equal(undefined);
+  return entry!;
+}
+
+describe("ledger", () => {
+  function setup() {
+    const store = {
+      ledgerEntries: {} as Record<string, Entry>,
+      refunds: {} as Record<string, unknown>,
+      wallets: {},
+    };
+    const ledger = createLedger({
+      store,
+      persist: () => undefined,
+      normalizeWallet: (address: string) => String(address).toLowerCase(),
+      decimals: 18,
+    });
+    const entries = () => Object.values(store.ledgerEntries);
+    const balanceOf = (account: string) => ledger.balanceOf(account) as bigint;
+    return { store, ledger, entries, balanceOf };
+  }
+
+  // Every posting moves a positive amount between two accounts, so the balances of all
+  // accounts always add up to zero.
+  function expectBalanced(ledger: { listBalances: () => { balanceWei: string }[] }, entries: Entry[]) {
+    for (const entry of entries) {
+      expect(BigInt(entry.amountWei) > 0n, entry.id).to.equal(true);
+      expect(entry.fromAccount, entry.id).to.not.equal(entry.toAccount);
+    }
+    const total = ledger.listBalances().reduce((sum, { balanceWei }) => sum + BigInt(balanceWei), 0n);
+    expect(total).to.equal(0n);
+  }
+
+  it("moves stakes from the wallet into the market's pot once", () => {
+    const { ledger, entries, balanceOf } = setup();
+    expect(ledger.recordStake(bet("b1", ALICE, 10))).to.equal(1);
+    expect(ledger.recordStake(bet("b1", ALICE, 10))).to.equal(0);
+    ledger.recordStake(bet("b2", BOB, 30));
+
+    expect(balanceOf(`wallet:${ALICE}`)).to.equal(-wei(10));
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(wei(40));
+    expect(entries().every((entry) => entry.type === LEDGER_ENTRY_TYPES.STAKE)).to.equal(true);
+    expectBalanced(ledger, entries());
+  });
+
+  it("pays a settled pot out to the winners and the house", () => {
+    const { ledger, entries, balanceOf } = setup();
+    ledger.recordStake(bet("b1", ALICE, 10));
+    ledger.recordStake(bet("b2", BOB, 30));
+
+    const settled = record({ winners: [BOB], payoutsWei: [wei(38).toString()], houseTakeWei: wei(2).toString() });
+    expect(ledger.recordSettlement(settled)).to.equal(2);
+    expect(ledger.recordSettlement(settled)).to.equal(0);
+
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(0n);
+    expect(balanceOf(`wallet:${BOB}`)).to.equal(wei(8));
+    expect(balanceOf(`wallet:${ALICE}`)).to.equal(-wei(10));
+    expect(balanceOf(HOUSE_ACCOUNT)).to.equal(wei(2));
+    expect(
+      entries()
+        .filter((entry) => entry.fromAccount === `pot:${MP}:1`)
+        .map((entry) => entry.type)
+    ).to.have.members([LEDGER_ENTRY_TYPES.PAYOUT, LEDGER_ENTRY_TYPES.HOUSE_TAKE]);
+    expectBalanced(ledger, entries());
+  });
+
+  it("splits a pot nobody won between the house and carryover", () => {
+    const { ledger, entries, balanceOf } = setup();
+    ledger.recordStake(bet("b1", ALICE, 10));
+    ledger.recordStake(bet("b2", BOB, 30));
+
+    ledger.recordSettlement(record({ houseTakeWei: wei(20).toString(), carryoverAddedWei: wei(20).toString() }));
+
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(0n);
+    expect(balanceOf(HOUSE_ACCOUNT)).to.equal(wei(20));
+    expect(balanceOf("carryover:1")).to.equal(wei(20));
+    expectBalanced(ledger, entries());
+  });
+
+  it("tops up a fixed-odds pot from the house before paying it", () => {
+    const { ledger, entries, balanceOf } = setup();
+    ledger.recordStake(bet("b1", ALICE, 10, { mode: "fixed", odds: 3 }));
+
+    const settled = record({
+      id: `${MP}:1:fixed`,
+      market: "fixed",
+      winners: [ALICE],
+      payoutsWei: [wei(30).toString()],
+      houseTopUpWei: wei(20).toString(),
+    });
+    ledger.recordSettlement(settled);
+
+    expect(balanceOf(`pot:${MP}:1:fixed`)).to.equal(0n);
+    expect(balanceOf(`wallet:${ALICE}`)).to.equal(wei(20));
+    expect(balanceOf(HOUSE_ACCOUNT)).to.equal(-wei(20));
+    expect(entryById(entries, `topup:${MP}:1:fixed`).type).to.equal(LEDGER_ENTRY_TYPES.HOUSE_TOP_UP);
+    expectBalanced(ledger, entries());
+  });
+
+  it("books a refunded stake as a refund, not a payout", () => {
+    const { store, ledger, entries, balanceOf } = setup();
+    ledger.recordStake(bet("b1", ALICE, 10));
+    ledger.recordStake(bet("b2", ALICE, 5, { status: "VOIDED" }));
+    ledger.recordStake(bet("b3", BOB, 25));
+    store.refunds.b2 = { id: "b2", user: ALICE, amount: 5, settlementId: `${MP}:1` };
+
+    // Alice won the pot of her live bets and Bob's, and gets the voided 5 back with it.
+    ledger.recordSettlement(record({ winners: [ALICE], payoutsWei: [wei(40).toString()] }));
+
+    expect(BigInt(entryById(entries, "refund:b2").amountWei)).to.equal(wei(5));
+    expect(BigInt(entryById(entries, `payout:${MP}:1:${ALICE}`).amountWei)).to.equal(wei(35));
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(0n);
+    expect(balanceOf(`wallet:${ALICE}`)).to.equal(wei(25));
+    expectBalanced(ledger, entries());
+  });
+
+  it("stakes unrecorded pool balance before settlement pays it out", () => {
+    const { store, ledger, entries, balanceOf } = setup();
+    ledger.recordStake(bet("b1", ALICE, 10));
+    store.refunds[`unrecorded:${MP}:1:${BOB}`] = {
+      id: `unrecorded:${MP}:1:${BOB}`,
+      user: BOB,
+      amount: 4,
+      amountWei: wei(4).toString(),
+      settlementId: `${MP}:1`,
+    };
+
+    // Bob staked 4 without posting the bet.
+    const settled = record({
+      winners: [ALICE, BOB],
+      payoutsWei: [wei(10).toString(), wei(4).toString()],
+      unrecordedStakes: [{ user: BOB, amountWei: wei(4).toString() }],
+    });
+    ledger.recordUnrecorded(settled);
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(wei(14));
+    ledger.recordSettlement(settled);
+
+    expect(balanceOf(`pot:${MP}:1`)).to.equal(0n);
+    expect(balanceOf(`wallet:${BOB}`)).to.equal(0n);
+    expect(balanceOf(HOUSE_ACCOUNT)).to.equal(0n);
+    expectBalanced(ledger, entries());
+  });
+});
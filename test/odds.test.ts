@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { positionProbabilities } from "../server/odds.js";
+
+const PLACES = [1, 2, 3] as const;
+
+type Table = Record<string, Record<(typeof PLACES)[number] | "top3", number>>;
+
+// Every finishing order of the top 3, weighted by Plackett-Luce draw by draw.
+function bruteForce(probs: Record<string, number>): Table {
+  const players = Object.keys(probs);
+  const table: Table = Object.fromEntries(players.map((p) => [p, { 1: 0, 2: 0, 3: 0, top3: 0 }]));
+  const draw = (left: string[], place: number, chance: number) => {
+    if (place > 3 || left.length === 0) return;
+    const weight = left.reduce((sum, p) => sum + probs[p], 0);
+    for (const p of left) {
+      const next = (chance * probs[p]) / weight;
+      table[p][place as 1 | 2 | 3] += next;
+      table[p].top3 += next;
+      draw(
+        left.filter((q) => q !== p),
+        place + 1,
+        next
+      );
+    }
+  };
+  draw(players, 1, 1);
+  return table;
+}
+
+describe("Plackett-Luce position probabilities", () => {
+  const field = { ana: 0.4, bo: 0.25, cy: 0.15, di: 0.12, ed: 0.08 };
+
+  it("gives each place out exactly once across the field", () => {
+    const table = positionProbabilities(field);
+    for (const place of PLACES) {
+      const total = Object.values(table).reduce((sum, row) => sum + row[place], 0);
+      expect(total, `place ${place}`).to.be.closeTo(1, 1e-12);
+    }
+  });
+
+  it("never gives a player more than one place", () => {
+    const table = positionProbabilities(field);
+    for (const [player, row] of Object.entries(table as Table)) {
+      const total = row[1] + row[2] + row[3];
+      expect(total, player).to.be.at.most(1 + 1e-12);
+      expect(row.top3, player).to.be.closeTo(total, 1e-12);
+    }
+  });
+
+  it("works out a two-player field by hand", () => {
+    // ana wins 3 times in 4 and is 2nd whenever bo wins; nobody is left for 3rd.
+    const table = positionProbabilities({ ana: 0.75, bo: 0.25 });
+    const expected: Table = {
+      ana: { 1: 0.75, 2: 0.25, 3: 0, top3: 1 },
+      bo: { 1: 0.25, 2: 0.75, 3: 0, top3: 1 },
+    };
+    for (const [player, row] of Object.entries(expected)) {
+      for (const [place, chance] of Object.entries(row)) {
+        expect(table[player][place], `${player} ${place}`).to.be.closeTo(chance, 1e-12);
+      }
+    }
+  });
+
+  it("matches every finishing order summed one by one", () => {
+    const table = positionProbabilities(field);
+    const expected = bruteForce(field);
+    for (const player of Object.keys(field)) {
+      for (const place of [...PLACES, "top3"] as const) {
+        expect(table[player][place], `${player} ${place}`).to.be.closeTo(expected[player][place], 1e-12);
+      }
+    }
+  });
+});